@@ -0,0 +1,35 @@
+import { ConfigContext, ExpoConfig } from 'expo/config';
+
+// Extends app.json with per-build settings. `APP_PROFILE` is set for each build
+// profile in eas.json; locally it defaults to `development`. Anything passed as
+// EXPO_PUBLIC_* overrides the profile defaults in utils/config.ts.
+export default ({ config }: ConfigContext): ExpoConfig => {
+  const profile = process.env.APP_PROFILE ?? process.env.EAS_BUILD_PROFILE ?? 'development';
+
+  // Only development has a default analyze URL; a release build without one
+  // would have nowhere to send reports, so it fails here rather than on launch.
+  if (profile !== 'development' && !process.env.EXPO_PUBLIC_API_BASE_URL) {
+    throw new Error(`No analyze URL for the "${profile}" build, set EXPO_PUBLIC_API_BASE_URL`);
+  }
+
+  return {
+    ...(config as ExpoConfig),
+    android: {
+      ...config.android,
+      // react-native-maps needs a Google Maps key on Android builds.
+      config: {
+        ...config.android?.config,
+        googleMaps: { apiKey: process.env.GOOGLE_MAPS_API_KEY },
+      },
+    },
+    extra: {
+      ...config.extra,
+      profile,
+      apiBaseUrl: process.env.EXPO_PUBLIC_API_BASE_URL,
+      supabaseUrl: process.env.EXPO_PUBLIC_SUPABASE_URL,
+      supabaseAnonKey: process.env.EXPO_PUBLIC_SUPABASE_ANON_KEY,
+      imageMaxDimension: process.env.EXPO_PUBLIC_IMAGE_MAX_DIMENSION,
+      imageQuality: process.env.EXPO_PUBLIC_IMAGE_QUALITY,
+    },
+  };
+};
@@ -0,0 +1,5 @@
+import SignInScreen from "../../screens/SignInScreen";
+
+export default function SignIn() {
+  return <SignInScreen />;
+}
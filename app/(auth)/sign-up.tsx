@@ -0,0 +1,5 @@
+import SignUpScreen from "../../screens/SignUpScreen";
+
+export default function SignUp() {
+  return <SignUpScreen />;
+}
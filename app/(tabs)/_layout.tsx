@@ -1,26 +1,56 @@
-import { Tabs } from "expo-router";
+import { Tabs, useRouter } from "expo-router";
 import { Ionicons, MaterialCommunityIcons } from "@expo/vector-icons";
-import { Platform } from "react-native";
+import { Alert, Platform, Pressable, Text, View } from "react-native";
+
+import { LanguageSwitcher } from "../../components/LanguageSwitcher";
+import { NotificationToggle } from "../../components/NotificationToggle";
+import { useThemeColors } from "../../components/Themed";
+import { signOut, useAuth } from "../../utils/auth";
+import { t, useLocale } from "../../utils/i18n";
+import { isReviewer } from "../../utils/reviews";
+
+function confirmSignOut() {
+  Alert.alert(t("signOut.title"), t("signOut.confirm"), [
+    { text: t("common.cancel"), style: "cancel" },
+    {
+      text: t("signOut.title"),
+      style: "destructive",
+      onPress: () => signOut().catch((err) => Alert.alert(t("signOut.failed"), err.message)),
+    },
+  ]);
+}
 
 export default function TabLayout() {
+  const router = useRouter();
+  useLocale();
+  const colors = useThemeColors();
+  const { user } = useAuth();
+
   return (
     <Tabs
       screenOptions={{
         tabBarStyle: {
-          backgroundColor: "#1f1f1f",
-          borderTopColor: "#2a2a2a",
+          backgroundColor: colors.tabBar,
+          borderTopColor: colors.border,
           height: Platform.select({ ios: 88, android: 60 }),
           paddingTop: 6,
         },
         tabBarLabelStyle: { fontSize: 12 },
-        tabBarActiveTintColor: "white",
-        tabBarInactiveTintColor: "gray",
+        tabBarActiveTintColor: colors.tabIconSelected,
+        tabBarInactiveTintColor: colors.tabIconDefault,
         headerShown: true,
       }}
     >
       <Tabs.Screen
         name="index"
-        options={{ title: "Camera",
+        options={{ title: t("tabs.camera"),
+        // Long-press the title to reach the hidden developer settings.
+        headerTitle: ({ children, tintColor }) => (
+          <Pressable onLongPress={() => router.push("/settings")} delayLongPress={800}>
+            <Text style={{ fontSize: 17, fontWeight: "600", color: tintColor }}>{children}</Text>
+          </Pressable>
+        ),
+        headerRight: ({ tintColor }) => <LanguageSwitcher color={tintColor} />,
         tabBarIcon: ({ color, size, focused }) => (
             <Ionicons
               name={focused ? "camera" : "camera-outline"}
@@ -32,7 +62,15 @@ export default function TabLayout() {
       />
       <Tabs.Screen
         name="two"
-        options={{ title: "Reports",
+        options={{ title: t("tabs.reports"),
+          headerRight: ({ tintColor }) => (
+            <View style={{ flexDirection: "row" }}>
+              <NotificationToggle color={tintColor} />
+              <Pressable onPress={confirmSignOut} hitSlop={10} style={{ marginRight: 16 }}>
+                <Ionicons name="log-out-outline" size={22} color={tintColor} />
+              </Pressable>
+            </View>
+          ),
           tabBarIcon: ({ color, size, focused }) => (
             <MaterialCommunityIcons
               name={focused ? "file-document" : "file-document-outline"}
@@ -42,6 +80,32 @@ export default function TabLayout() {
           ),
         }}
       />
+      <Tabs.Screen
+        name="map"
+        options={{ title: t("tabs.map"),
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons
+              name={focused ? "map" : "map-outline"}
+              size={size ?? 22}
+              color={color}
+            />
+          ),
+        }}
+      />
+      {/* Only reviewers get the moderation tab; `href: null` hides it for everyone else. */}
+      <Tabs.Screen
+        name="review"
+        options={{ title: t("tabs.review"),
+          href: isReviewer(user) ? undefined : null,
+          tabBarIcon: ({ color, size, focused }) => (
+            <Ionicons
+              name={focused ? "shield-checkmark" : "shield-checkmark-outline"}
+              size={size ?? 22}
+              color={color}
+            />
+          ),
+        }}
+      />
     </Tabs>
   );
 }
@@ -0,0 +1,5 @@
+import MapScreen from "../../screens/MapScreen";
+
+export default function TabThreeScreen() {
+  return <MapScreen />;
+}
@@ -0,0 +1,5 @@
+import ReviewScreen from "../../screens/ReviewScreen";
+
+export default function ReviewTab() {
+  return <ReviewScreen />;
+}
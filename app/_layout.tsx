@@ -1,10 +1,24 @@
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { DarkTheme, DefaultTheme, ThemeProvider } from '@react-navigation/native';
 import { useFonts } from 'expo-font';
-import { SplashScreen, Stack } from 'expo-router';
-import { useEffect } from 'react';
+import { SplashScreen, Stack, useRootNavigationState, useRouter, useSegments } from 'expo-router';
+import { useEffect, useState } from 'react';
 import { useColorScheme } from 'react-native';
 
+import Colors from '../constants/Colors';
+
+import { loadApiBaseUrlOverride } from '../utils/api';
+import { AuthProvider, useAuth } from '../utils/auth';
+import { loadLocale, t, useLocale } from '../utils/i18n';
+import {
+  loadNotificationPrefs,
+  onNotificationOpened,
+  registerPushToken,
+  startStatusNotifier,
+  useNotificationsEnabled,
+} from '../utils/notifications';
+import { startOutboxSync } from '../utils/outbox';
+
 export {
   // Catch any errors thrown by the Layout component.
   ErrorBoundary,
@@ -23,6 +37,13 @@ export default function RootLayout() {
     SpaceMono: require('../assets/fonts/SpaceMono-Regular.ttf'),
     ...FontAwesome.font,
   });
+  // The saved language has to be known before any translated text renders, and
+  // the notification opt-out before the status notifier may start.
+  const [localeReady, setLocaleReady] = useState(false);
+
+  useEffect(() => {
+    Promise.all([loadLocale(), loadNotificationPrefs()]).then(() => setLocaleReady(true));
+  }, []);
 
   // Expo Router uses Error Boundaries to catch errors in the navigation tree.
   useEffect(() => {
@@ -30,26 +51,114 @@ export default function RootLayout() {
   }, [error]);
 
   useEffect(() => {
-    if (loaded) {
+    if (loaded && localeReady) {
       SplashScreen.hideAsync();
     }
-  }, [loaded]);
+  }, [loaded, localeReady]);
 
-  if (!loaded) {
+  if (!loaded || !localeReady) {
     return null;
   }
 
-  return <RootLayoutNav />;
+  return (
+    <AuthProvider>
+      <RootLayoutNav />
+    </AuthProvider>
+  );
+}
+
+// Signed-out users only get the (auth) screens; the hidden settings screen stays
+// reachable so testers can fix the backend URL before signing in.
+function useProtectedRoute() {
+  const { session, loading } = useAuth();
+  const segments = useSegments();
+  const router = useRouter();
+  const navigationState = useRootNavigationState();
+
+  useEffect(() => {
+    if (loading || !navigationState?.key) return;
+
+    const inAuthGroup = segments[0] === '(auth)';
+    if (!session && !inAuthGroup && segments[0] !== 'settings') {
+      router.replace('/sign-in');
+    } else if (session && inAuthGroup) {
+      router.replace('/');
+    }
+  }, [session, loading, segments, navigationState?.key]);
+}
+
+// Navigation chrome (headers, screen backgrounds) built from the same tokens as
+// the screens so both stay in step.
+const navigationThemes = {
+  light: {
+    ...DefaultTheme,
+    colors: {
+      ...DefaultTheme.colors,
+      primary: Colors.light.primary,
+      background: Colors.light.screen,
+      card: Colors.light.surface,
+      text: Colors.light.text,
+      border: Colors.light.border,
+    },
+  },
+  dark: {
+    ...DarkTheme,
+    colors: {
+      ...DarkTheme.colors,
+      primary: Colors.dark.primary,
+      background: Colors.dark.screen,
+      card: Colors.dark.surface,
+      text: Colors.dark.text,
+      border: Colors.dark.border,
+    },
+  },
+};
+
+// Tells the signed-in user when one of their reports gets its final status,
+// unless they opted out, and opens the report when a notification is tapped.
+function useStatusNotifications() {
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const enabled = useNotificationsEnabled(userId);
+  const router = useRouter();
+
+  useEffect(() => {
+    if (!userId || !enabled) return;
+    registerPushToken(userId);
+    return startStatusNotifier(userId);
+  }, [userId, enabled]);
+
+  useEffect(() => onNotificationOpened((id) => router.push(`/report/${id}`)), []);
 }
 
 function RootLayoutNav() {
   const colorScheme = useColorScheme();
+  useLocale();
+  useProtectedRoute();
+  useStatusNotifications();
+
+  // Keep retrying reports that were captured while offline, against the
+  // backend the tester picked in settings (if any).
+  useEffect(() => {
+    let stop: (() => void) | undefined;
+    let cancelled = false;
+    loadApiBaseUrlOverride().then(() => {
+      if (!cancelled) stop = startOutboxSync();
+    });
+    return () => {
+      cancelled = true;
+      stop?.();
+    };
+  }, []);
 
   return (
-    <ThemeProvider value={colorScheme === 'dark' ? DarkTheme : DefaultTheme}>
+    <ThemeProvider value={navigationThemes[colorScheme ?? 'light']}>
       <Stack>
         <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+        <Stack.Screen name="(auth)" options={{ headerShown: false }} />
         <Stack.Screen name="modal" options={{ presentation: 'card' }} />
+        <Stack.Screen name="settings" options={{ title: t('screen.settings') }} />
+        <Stack.Screen name="report/[id]" options={{ title: t('screen.report') }} />
       </Stack>
     </ThemeProvider>
   );
@@ -0,0 +1,8 @@
+import { useLocalSearchParams } from "expo-router";
+
+import ReportDetailScreen from "../../screens/ReportDetailScreen";
+
+export default function ReportDetail() {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  return <ReportDetailScreen id={String(id)} />;
+}
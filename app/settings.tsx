@@ -0,0 +1,5 @@
+import SettingsScreen from "../screens/SettingsScreen";
+
+export default function Settings() {
+  return <SettingsScreen />;
+}
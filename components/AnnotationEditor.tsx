@@ -0,0 +1,233 @@
+import { useEffect, useState } from 'react';
+import {
+  Image,
+  LayoutChangeEvent,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+import {
+  PanGestureHandler,
+  PanGestureHandlerGestureEvent,
+  PanGestureHandlerStateChangeEvent,
+  State,
+} from 'react-native-gesture-handler';
+
+import {
+  Annotations,
+  BoundingBox,
+  boxFromDrag,
+  categoryLabel,
+  HOARDING_TYPES,
+  VIOLATION_CATEGORIES,
+  ViolationCategory,
+} from '../utils/annotations';
+import { t } from '../utils/i18n';
+import { Text, useThemeColors } from './Themed';
+
+type Props = {
+  photos: string[];
+  value: Annotations;
+  onChange: (value: Annotations) => void;
+};
+
+function BoxOverlay({ box, size }: { box: BoundingBox; size: { width: number; height: number } }) {
+  return (
+    <View
+      pointerEvents="none"
+      style={[
+        styles.box,
+        {
+          left: box.x * size.width,
+          top: box.y * size.height,
+          width: box.width * size.width,
+          height: box.height * size.height,
+        },
+      ]}
+    />
+  );
+}
+
+// Drag on the photo to box the offending hoarding, then tag it and add a note.
+export function AnnotationEditor({ photos, value, onChange }: Props) {
+  const uri = photos[value.photoIndex] ?? photos[0];
+  const [aspectRatio, setAspectRatio] = useState(3 / 4);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [draft, setDraft] = useState<BoundingBox | null>(null);
+  const colors = useThemeColors();
+
+  // The view takes the photo's own aspect ratio so box fractions map 1:1 onto it.
+  useEffect(() => {
+    if (!uri) return;
+    Image.getSize(
+      uri,
+      (w, h) => w > 0 && h > 0 && setAspectRatio(w / h),
+      () => {}
+    );
+  }, [uri]);
+
+  const onLayout = (e: LayoutChangeEvent) => {
+    const { width, height } = e.nativeEvent.layout;
+    setSize({ width, height });
+  };
+
+  const dragBox = (e: { x: number; y: number; translationX: number; translationY: number }) =>
+    boxFromDrag({ x: e.x - e.translationX, y: e.y - e.translationY }, { x: e.x, y: e.y }, size);
+
+  const onGestureEvent = (e: PanGestureHandlerGestureEvent) => setDraft(dragBox(e.nativeEvent));
+
+  const onHandlerStateChange = (e: PanGestureHandlerStateChangeEvent) => {
+    if (e.nativeEvent.oldState === State.ACTIVE) {
+      const box = dragBox(e.nativeEvent);
+      setDraft(null);
+      if (box) onChange({ ...value, box });
+    }
+  };
+
+  const toggleCategory = (id: ViolationCategory) => {
+    const categories = value.categories.includes(id)
+      ? value.categories.filter((c) => c !== id)
+      : [...value.categories, id];
+    onChange({ ...value, categories });
+  };
+
+  const shownBox = draft ?? value.box;
+
+  return (
+    <View>
+      <PanGestureHandler
+        minDist={4}
+        onGestureEvent={onGestureEvent}
+        onHandlerStateChange={onHandlerStateChange}>
+        <View
+          style={[styles.photoFrame, { aspectRatio, backgroundColor: colors.surfaceMuted }]}
+          onLayout={onLayout}>
+          {uri && <Image source={{ uri }} style={StyleSheet.absoluteFill} resizeMode="cover" />}
+          {shownBox && size.width > 0 && <BoxOverlay box={shownBox} size={size} />}
+        </View>
+      </PanGestureHandler>
+
+      <View style={styles.boxRow}>
+        <Text style={[styles.hint, { color: colors.textMuted }]}>
+          {value.box ? t('annotate.redrawHint') : t('annotate.dragHint')}
+        </Text>
+        {value.box && (
+          <TouchableOpacity onPress={() => onChange({ ...value, box: null })} hitSlop={8}>
+            <Text style={[styles.link, { color: colors.primary }]}>{t('annotate.clearBox')}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {photos.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.thumbs}>
+          {photos.map((p, i) => (
+            <TouchableOpacity
+              key={p}
+              onPress={() => i !== value.photoIndex && onChange({ ...value, photoIndex: i, box: null })}>
+              <Image
+                source={{ uri: p }}
+                style={[styles.thumb, i === value.photoIndex && { borderColor: colors.primary }]}
+              />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      <Text style={[styles.section, { color: colors.textMuted }]}>
+        {t('annotate.hoardingType')}
+      </Text>
+      <View style={styles.chips}>
+        {HOARDING_TYPES.map((type) => {
+          const active = value.hoardingType === type;
+          return (
+            <TouchableOpacity
+              key={type}
+              style={[styles.chip, { backgroundColor: active ? colors.primary : colors.surfaceMuted }]}
+              onPress={() => onChange({ ...value, hoardingType: active ? null : type })}>
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {t(`hoarding.${type}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.section, { color: colors.textMuted }]}>{t('annotate.violations')}</Text>
+      <View style={styles.chips}>
+        {VIOLATION_CATEGORIES.map((c) => {
+          const active = value.categories.includes(c);
+          return (
+            <TouchableOpacity
+              key={c}
+              style={[
+                styles.chip,
+                { backgroundColor: active ? colors.violation : colors.surfaceMuted },
+              ]}
+              onPress={() => toggleCategory(c)}>
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {categoryLabel(c)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <Text style={[styles.section, { color: colors.textMuted }]}>{t('annotate.note')}</Text>
+      <TextInput
+        style={[styles.note, { backgroundColor: colors.surfaceMuted, color: colors.text }]}
+        placeholder={t('annotate.notePlaceholder')}
+        placeholderTextColor={colors.textMuted}
+        value={value.note}
+        onChangeText={(note) => onChange({ ...value, note })}
+        multiline
+        maxLength={500}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  photoFrame: {
+    width: '100%',
+    borderRadius: 10,
+    overflow: 'hidden',
+  },
+  box: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#dc2626',
+    backgroundColor: 'rgba(220,38,38,0.12)',
+  },
+  boxRow: { flexDirection: 'row', alignItems: 'center', marginTop: 6 },
+  hint: { flex: 1, fontSize: 12 },
+  link: { fontWeight: '600' },
+  thumbs: { marginTop: 8, flexGrow: 0 },
+  thumb: {
+    width: 48,
+    height: 48,
+    borderRadius: 6,
+    marginRight: 6,
+    borderWidth: 2,
+    borderColor: 'transparent',
+  },
+  section: { fontSize: 13, fontWeight: '600', marginTop: 14, marginBottom: 6 },
+  chips: { flexDirection: 'row', flexWrap: 'wrap' },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipText: { fontSize: 13 },
+  chipTextActive: { color: 'white', fontWeight: '600' },
+  note: {
+    minHeight: 70,
+    borderRadius: 10,
+    padding: 10,
+    fontSize: 15,
+    textAlignVertical: 'top',
+  },
+});
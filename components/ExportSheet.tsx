@@ -0,0 +1,57 @@
+import { Ionicons } from '@expo/vector-icons';
+import { ComponentProps } from 'react';
+import { Modal, Pressable, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { EXPORT_FORMATS, ExportFormat, PDF_LIMIT } from '../utils/exportReports';
+import { t, useLocale } from '../utils/i18n';
+import { Text, useThemeColors } from './Themed';
+
+const FORMAT_ICONS: Record<ExportFormat, ComponentProps<typeof Ionicons>['name']> = {
+  csv: 'grid-outline',
+  geojson: 'map-outline',
+  pdf: 'document-text-outline',
+};
+
+type Props = {
+  visible: boolean;
+  title: string;
+  onPick: (format: ExportFormat) => void;
+  onClose: () => void;
+};
+
+// Format chooser for the Reports export. Android alerts only take three
+// buttons, so the formats get a small sheet of their own.
+export function ExportSheet({ visible, title, onPick, onClose }: Props) {
+  const colors = useThemeColors();
+  useLocale();
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable style={[styles.backdrop, { backgroundColor: colors.backdrop }]} onPress={onClose}>
+        <View style={[styles.sheet, { backgroundColor: colors.surface }]}>
+          <Text style={[styles.title, { color: colors.textMuted }]}>{title}</Text>
+          {EXPORT_FORMATS.map((format) => (
+            <TouchableOpacity key={format} style={styles.option} onPress={() => onPick(format)}>
+              <Ionicons name={FORMAT_ICONS[format]} size={20} color={colors.primary} />
+              <Text style={styles.optionText}>{t(`export.${format}`, { max: PDF_LIMIT })}</Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity style={styles.option} onPress={onClose}>
+            <Text style={[styles.optionText, styles.cancel, { color: colors.textMuted }]}>
+              {t('common.cancel')}
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: { flex: 1, justifyContent: 'center', padding: 32 },
+  sheet: { borderRadius: 12, paddingVertical: 8 },
+  title: { fontSize: 13, fontWeight: '600', paddingHorizontal: 16, paddingVertical: 8 },
+  option: { flexDirection: 'row', alignItems: 'center', paddingHorizontal: 16, paddingVertical: 12 },
+  optionText: { fontSize: 16, marginLeft: 12 },
+  cancel: { marginLeft: 0 },
+});
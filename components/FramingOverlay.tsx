@@ -0,0 +1,71 @@
+import { StyleSheet, Text, View } from 'react-native';
+
+import { StatusColors } from '../constants/Colors';
+import { MAX_TILT_DEG } from '../utils/captureQuality';
+import { t, useLocale } from '../utils/i18n';
+
+type Props = {
+  qrSeen: boolean;
+  tilt: number | null;
+  top: number;
+};
+
+// Guided-capture overlay drawn over the viewfinder: corner brackets for the
+// hoarding, a level that turns green when the phone is straight, and a hint
+// that asks for the license QR until one has been scanned. Like the other
+// viewfinder overlays it stays light-on-dark in both color schemes.
+export function FramingOverlay({ qrSeen, tilt, top }: Props) {
+  useLocale();
+  const level = tilt == null || Math.abs(tilt) <= MAX_TILT_DEG;
+  const levelColor = level ? StatusColors.success : StatusColors.warning;
+
+  return (
+    <View style={StyleSheet.absoluteFill} pointerEvents="none">
+      <View style={[styles.hint, { top: top + 12 }]}>
+        <Text style={styles.hintText}>{qrSeen ? t('guide.frame') : t('guide.findQr')}</Text>
+        {!level && <Text style={styles.hintDetail}>{t('guide.straighten')}</Text>}
+      </View>
+
+      <View style={styles.frameArea}>
+        <View style={styles.frame}>
+          <View style={[styles.corner, styles.topLeft]} />
+          <View style={[styles.corner, styles.topRight]} />
+          <View style={[styles.corner, styles.bottomLeft]} />
+          <View style={[styles.corner, styles.bottomRight]} />
+          <View
+            style={[
+              styles.level,
+              { backgroundColor: levelColor, transform: [{ rotate: `${-(tilt ?? 0)}deg` }] },
+            ]}
+          />
+        </View>
+      </View>
+    </View>
+  );
+}
+
+const CORNER = 28;
+const STROKE = 3;
+
+const styles = StyleSheet.create({
+  hint: {
+    position: 'absolute',
+    alignSelf: 'center',
+    maxWidth: '86%',
+    backgroundColor: 'rgba(0,0,0,0.55)',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    alignItems: 'center',
+  },
+  hintText: { color: 'white', fontSize: 14, fontWeight: '600', textAlign: 'center' },
+  hintDetail: { color: 'rgba(255,255,255,0.8)', fontSize: 12, marginTop: 2, textAlign: 'center' },
+  frameArea: { flex: 1, justifyContent: 'center', alignItems: 'center' },
+  frame: { width: '84%', aspectRatio: 4 / 3, justifyContent: 'center', alignItems: 'center' },
+  corner: { position: 'absolute', width: CORNER, height: CORNER, borderColor: 'white' },
+  topLeft: { top: 0, left: 0, borderTopWidth: STROKE, borderLeftWidth: STROKE },
+  topRight: { top: 0, right: 0, borderTopWidth: STROKE, borderRightWidth: STROKE },
+  bottomLeft: { bottom: 0, left: 0, borderBottomWidth: STROKE, borderLeftWidth: STROKE },
+  bottomRight: { bottom: 0, right: 0, borderBottomWidth: STROKE, borderRightWidth: STROKE },
+  level: { width: 80, height: 2, borderRadius: 1 },
+});
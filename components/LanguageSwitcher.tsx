@@ -0,0 +1,70 @@
+import { Ionicons } from '@expo/vector-icons';
+import { useState } from 'react';
+import { Modal, Pressable, StyleSheet, TouchableOpacity, View } from 'react-native';
+
+import { Text, useThemeColors } from './Themed';
+import { getLocaleOverride, Locale, LOCALES, setLocale, t, useLocale } from '../utils/i18n';
+
+// Header button that lets the user pick a language or follow the device.
+export function LanguageSwitcher({ color }: { color?: string }) {
+  const [open, setOpen] = useState(false);
+  const colors = useThemeColors();
+  useLocale();
+  const selected = getLocaleOverride();
+
+  const choose = (locale: Locale | null) => {
+    setOpen(false);
+    setLocale(locale).catch((err) => console.warn('⚠️ Could not save language:', err));
+  };
+
+  const options: { id: Locale | null; name: string }[] = [
+    { id: null, name: t('language.system') },
+    ...LOCALES,
+  ];
+
+  return (
+    <>
+      <Pressable onPress={() => setOpen(true)} hitSlop={10} style={styles.button}>
+        <Ionicons name="globe-outline" size={22} color={color} />
+      </Pressable>
+
+      <Modal visible={open} transparent animationType="fade" onRequestClose={() => setOpen(false)}>
+        <Pressable
+          style={[styles.backdrop, { backgroundColor: colors.backdrop }]}
+          onPress={() => setOpen(false)}>
+          <View style={[styles.sheet, { backgroundColor: colors.surface }]}>
+            <Text style={[styles.title, { color: colors.textMuted }]}>{t('language.title')}</Text>
+            {options.map((option) => (
+              <TouchableOpacity
+                key={option.id ?? 'system'}
+                style={styles.option}
+                onPress={() => choose(option.id)}>
+                <Text style={styles.optionText}>{option.name}</Text>
+                {selected === option.id && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+              </TouchableOpacity>
+            ))}
+          </View>
+        </Pressable>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: { marginRight: 16 },
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: 32,
+  },
+  sheet: { borderRadius: 12, paddingVertical: 8 },
+  title: { fontSize: 13, fontWeight: '600', paddingHorizontal: 16, paddingVertical: 8 },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  optionText: { fontSize: 16 },
+});
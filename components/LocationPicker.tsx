@@ -0,0 +1,87 @@
+import * as Location from 'expo-location';
+import { useEffect, useState } from 'react';
+import { Modal, StyleSheet, TouchableOpacity, View } from 'react-native';
+import MapView, { Marker } from 'react-native-maps';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+
+import { t, useLocale } from '../utils/i18n';
+import { Coords } from '../utils/reports';
+import { Text, useThemeColors } from './Themed';
+
+// Bhubaneswar, as on the Map tab, until the phone's last position is known.
+const DEFAULT_CENTER: Coords = { latitude: 20.2961, longitude: 85.8245 };
+
+type Props = {
+  visible: boolean;
+  onConfirm: (coords: Coords) => void;
+  onCancel: () => void;
+};
+
+// Full-screen map for saying where imported photos were taken when their EXIF
+// has no GPS. Tap to drop the pin, drag to adjust.
+export function LocationPicker({ visible, onConfirm, onCancel }: Props) {
+  const [pin, setPin] = useState<Coords | null>(null);
+  const [center, setCenter] = useState<Coords>(DEFAULT_CENTER);
+  const colors = useThemeColors();
+  const insets = useSafeAreaInsets();
+  useLocale();
+
+  useEffect(() => {
+    if (!visible) return;
+    setPin(null);
+    Location.getLastKnownPositionAsync()
+      .then((loc) => loc && setCenter({ latitude: loc.coords.latitude, longitude: loc.coords.longitude }))
+      .catch(() => {});
+  }, [visible]);
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+      <View style={[styles.container, { backgroundColor: colors.surface }]}>
+        <View style={[styles.header, { paddingTop: insets.top + 12 }]}>
+          <Text style={styles.title}>{t('import.pinTitle')}</Text>
+          <Text style={[styles.hint, { color: colors.textMuted }]}>{t('import.pinHint')}</Text>
+        </View>
+
+        <MapView
+          key={`${center.latitude},${center.longitude}`}
+          style={styles.map}
+          initialRegion={{ ...center, latitudeDelta: 0.02, longitudeDelta: 0.02 }}
+          onPress={(e) => setPin(e.nativeEvent.coordinate)}
+        >
+          {pin && (
+            <Marker
+              coordinate={pin}
+              draggable
+              onDragEnd={(e) => setPin(e.nativeEvent.coordinate)}
+            />
+          )}
+        </MapView>
+
+        <View style={[styles.actions, { paddingBottom: insets.bottom + 12 }]}>
+          <TouchableOpacity style={[styles.button, { backgroundColor: colors.secondary }]} onPress={onCancel}>
+            <Text style={[styles.buttonText, { color: colors.onPrimary }]}>{t('common.cancel')}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.button, { backgroundColor: colors.primary }, !pin && styles.disabled]}
+            disabled={!pin}
+            onPress={() => pin && onConfirm(pin)}
+          >
+            <Text style={[styles.buttonText, { color: colors.onPrimary }]}>{t('import.usePin')}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: { paddingHorizontal: 16, paddingBottom: 12 },
+  title: { fontSize: 18, fontWeight: 'bold' },
+  hint: { fontSize: 14, marginTop: 4 },
+  map: { flex: 1 },
+  actions: { flexDirection: 'row', paddingHorizontal: 16, paddingTop: 12 },
+  button: { flex: 1, paddingVertical: 12, borderRadius: 10, alignItems: 'center', marginHorizontal: 4 },
+  buttonText: { fontWeight: '600', fontSize: 16 },
+  disabled: { opacity: 0.5 },
+});
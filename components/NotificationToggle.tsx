@@ -0,0 +1,41 @@
+import { Ionicons } from '@expo/vector-icons';
+import { Alert, Pressable, StyleSheet } from 'react-native';
+
+import { useAuth } from '../utils/auth';
+import { t, useLocale } from '../utils/i18n';
+import { setNotificationsEnabled, useNotificationsEnabled } from '../utils/notifications';
+
+// Header bell that turns report status notifications on or off for the
+// signed-in user on this device.
+export function NotificationToggle({ color }: { color?: string }) {
+  const { user } = useAuth();
+  const enabled = useNotificationsEnabled(user?.id ?? null);
+  useLocale();
+
+  if (!user) return null;
+
+  const toggle = () => {
+    const next = !enabled;
+    setNotificationsEnabled(user.id, next).catch((err) =>
+      console.warn('⚠️ Could not save notification setting:', err)
+    );
+    Alert.alert(
+      next ? t('notify.onTitle') : t('notify.offTitle'),
+      next ? t('notify.onBody') : t('notify.offBody')
+    );
+  };
+
+  return (
+    <Pressable onPress={toggle} hitSlop={10} style={styles.button}>
+      <Ionicons
+        name={enabled ? 'notifications-outline' : 'notifications-off-outline'}
+        size={22}
+        color={color}
+      />
+    </Pressable>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: { marginRight: 16 },
+});
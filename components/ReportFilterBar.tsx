@@ -0,0 +1,201 @@
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { Ionicons } from '@expo/vector-icons';
+import { useEffect, useRef, useState } from 'react';
+import { ScrollView, StyleSheet, TextInput, TouchableOpacity, View } from 'react-native';
+
+import { Text, useThemeColors } from './Themed';
+
+import { formatDate, MessageKey, t, useLocale } from '../utils/i18n';
+import {
+  DEFAULT_FILTERS,
+  isFiltered,
+  ReportFilters,
+  SortOrder,
+  STATUS_FILTERS,
+  StatusFilter,
+} from '../utils/reportFilters';
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+const STATUS_LABELS: Record<StatusFilter, MessageKey> = {
+  pending: 'filters.pending',
+  violation: 'filters.violation',
+  success: 'filters.success',
+  error: 'filters.error',
+};
+
+const SORT_LABELS: Record<SortOrder, MessageKey> = {
+  newest: 'filters.newest',
+  oldest: 'filters.oldest',
+  nearest: 'filters.nearest',
+};
+
+type Props = {
+  filters: ReportFilters;
+  onChange: (filters: ReportFilters) => void;
+};
+
+function Chip({ label, active, onPress }: { label: string; active: boolean; onPress: () => void }) {
+  const colors = useThemeColors();
+  return (
+    <TouchableOpacity
+      style={[styles.chip, { backgroundColor: active ? colors.primary : colors.surfaceMuted }]}
+      onPress={onPress}>
+      <Text style={[styles.chipText, active && [styles.chipTextActive, { color: colors.onPrimary }]]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+}
+
+export function ReportFilterBar({ filters, onChange }: Props) {
+  const [expanded, setExpanded] = useState(false);
+  const [search, setSearch] = useState(filters.search);
+  const [picking, setPicking] = useState<'from' | 'to' | null>(null);
+  useLocale();
+  const colors = useThemeColors();
+
+  // Keep the box in sync when filters are restored from storage or reset.
+  useEffect(() => setSearch(filters.search), [filters.search]);
+
+  // The timer reads the latest filters when it fires, so a chip tapped while
+  // typing is not undone by the search being applied.
+  const latest = useRef({ filters, onChange });
+  latest.current = { filters, onChange };
+
+  useEffect(() => {
+    if (search === latest.current.filters.search) return;
+    const timer = setTimeout(() => {
+      const { filters: current, onChange: apply } = latest.current;
+      apply({ ...current, search });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const toggleStatus = (status: StatusFilter) => {
+    const statuses = filters.statuses.includes(status)
+      ? filters.statuses.filter((s) => s !== status)
+      : [...filters.statuses, status];
+    onChange({ ...filters, statuses });
+  };
+
+  const onPickDate = (event: DateTimePickerEvent, date?: Date) => {
+    const target = picking;
+    setPicking(null);
+    if (event.type !== 'set' || !date || !target) return;
+
+    const day = new Date(date);
+    if (target === 'from') day.setHours(0, 0, 0, 0);
+    else day.setHours(23, 59, 59, 999);
+    onChange({ ...filters, [target]: day.toISOString() });
+  };
+
+  const dateLabel = (iso: string | null) => (iso ? formatDate(iso) : t('filters.any'));
+
+  return (
+    <View style={styles.container}>
+      <View style={[styles.searchRow, { backgroundColor: colors.surface }]}>
+        <Ionicons name="search" size={16} color={colors.textMuted} />
+        <TextInput
+          style={[styles.search, { color: colors.text }]}
+          placeholder={t('filters.search')}
+          placeholderTextColor={colors.textMuted}
+          value={search}
+          onChangeText={setSearch}
+          returnKeyType="search"
+          autoCorrect={false}
+        />
+        <TouchableOpacity onPress={() => setExpanded((e) => !e)} hitSlop={8}>
+          <Ionicons
+            name={isFiltered(filters) ? 'funnel' : 'funnel-outline'}
+            size={18}
+            color={isFiltered(filters) ? colors.primary : colors.textMuted}
+          />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+        {(Object.keys(SORT_LABELS) as SortOrder[]).map((sort) => (
+          <Chip
+            key={sort}
+            label={t(SORT_LABELS[sort])}
+            active={filters.sort === sort}
+            onPress={() => onChange({ ...filters, sort })}
+          />
+        ))}
+      </ScrollView>
+
+      {expanded && (
+        <>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.chips}>
+            {STATUS_FILTERS.map((status) => (
+              <Chip
+                key={status}
+                label={t(STATUS_LABELS[status])}
+                active={filters.statuses.includes(status)}
+                onPress={() => toggleStatus(status)}
+              />
+            ))}
+            <Chip
+              label={t('filters.hasQr')}
+              active={filters.hasQr}
+              onPress={() => onChange({ ...filters, hasQr: !filters.hasQr })}
+            />
+          </ScrollView>
+
+          <View style={styles.dateRow}>
+            <Chip
+              label={t('filters.from', { date: dateLabel(filters.from) })}
+              active={!!filters.from}
+              onPress={() => setPicking('from')}
+            />
+            <Chip
+              label={t('filters.to', { date: dateLabel(filters.to) })}
+              active={!!filters.to}
+              onPress={() => setPicking('to')}
+            />
+            {isFiltered(filters) && (
+              <TouchableOpacity
+                onPress={() => onChange({ ...DEFAULT_FILTERS, sort: filters.sort })}
+                style={styles.clear}>
+                <Text style={[styles.clearText, { color: colors.primary }]}>{t('filters.clear')}</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        </>
+      )}
+
+      {picking && (
+        <DateTimePicker
+          mode="date"
+          value={new Date(filters[picking] ?? Date.now())}
+          maximumDate={new Date()}
+          onChange={onPickDate}
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { paddingHorizontal: 10, paddingTop: 8 },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 10,
+    paddingHorizontal: 10,
+  },
+  search: { flex: 1, paddingVertical: 8, marginHorizontal: 8, fontSize: 15 },
+  chips: { marginTop: 8, flexGrow: 0 },
+  chip: {
+    paddingVertical: 6,
+    paddingHorizontal: 12,
+    borderRadius: 16,
+    marginRight: 8,
+  },
+  chipText: { fontSize: 13 },
+  chipTextActive: { fontWeight: '600' },
+  dateRow: { flexDirection: 'row', alignItems: 'center', marginTop: 8 },
+  clear: { marginLeft: 'auto', paddingHorizontal: 6 },
+  clearText: { fontWeight: '600' },
+});
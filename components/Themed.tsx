@@ -15,6 +15,13 @@ type ThemeProps = {
 export type TextProps = ThemeProps & DefaultText['props'];
 export type ViewProps = ThemeProps & DefaultView['props'];
 
+export type ThemeColors = typeof Colors.light;
+
+// The whole token set for the current scheme, for styles that need several.
+export function useThemeColors(): ThemeColors {
+  return Colors[useColorScheme() ?? 'light'];
+}
+
 export function useThemeColor(
   props: { light?: string; dark?: string },
   colorName: keyof typeof Colors.light & keyof typeof Colors.dark
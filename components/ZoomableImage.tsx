@@ -0,0 +1,104 @@
+import { useRef } from 'react';
+import { Animated, ImageStyle, StyleProp } from 'react-native';
+import {
+  PanGestureHandler,
+  PanGestureHandlerStateChangeEvent,
+  PinchGestureHandler,
+  PinchGestureHandlerStateChangeEvent,
+  State,
+  TapGestureHandler,
+} from 'react-native-gesture-handler';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 5;
+
+type Props = {
+  uri: string;
+  style?: StyleProp<ImageStyle>;
+};
+
+// Pinch to zoom, drag to pan, double tap to reset.
+export function ZoomableImage({ uri, style }: Props) {
+  const pinchRef = useRef(null);
+  const panRef = useRef(null);
+
+  const baseScale = useRef(new Animated.Value(1)).current;
+  const pinchScale = useRef(new Animated.Value(1)).current;
+  const scale = Animated.multiply(baseScale, pinchScale);
+  const lastScale = useRef(1);
+
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const lastOffset = useRef({ x: 0, y: 0 });
+
+  const onPinchEvent = Animated.event([{ nativeEvent: { scale: pinchScale } }], {
+    useNativeDriver: true,
+  });
+
+  const onPinchStateChange = (event: PinchGestureHandlerStateChangeEvent) => {
+    if (event.nativeEvent.oldState === State.ACTIVE) {
+      lastScale.current = Math.min(
+        MAX_SCALE,
+        Math.max(MIN_SCALE, lastScale.current * event.nativeEvent.scale)
+      );
+      baseScale.setValue(lastScale.current);
+      pinchScale.setValue(1);
+    }
+  };
+
+  const onPanEvent = Animated.event(
+    [{ nativeEvent: { translationX: translateX, translationY: translateY } }],
+    { useNativeDriver: true }
+  );
+
+  const onPanStateChange = (event: PanGestureHandlerStateChangeEvent) => {
+    if (event.nativeEvent.oldState === State.ACTIVE) {
+      lastOffset.current.x += event.nativeEvent.translationX;
+      lastOffset.current.y += event.nativeEvent.translationY;
+      translateX.setOffset(lastOffset.current.x);
+      translateX.setValue(0);
+      translateY.setOffset(lastOffset.current.y);
+      translateY.setValue(0);
+    }
+  };
+
+  const reset = () => {
+    lastScale.current = 1;
+    lastOffset.current = { x: 0, y: 0 };
+    baseScale.setValue(1);
+    translateX.setOffset(0);
+    translateX.setValue(0);
+    translateY.setOffset(0);
+    translateY.setValue(0);
+  };
+
+  return (
+    <TapGestureHandler
+      numberOfTaps={2}
+      onHandlerStateChange={(e) => e.nativeEvent.state === State.ACTIVE && reset()}>
+      <Animated.View style={{ overflow: 'hidden' }}>
+        <PanGestureHandler
+          ref={panRef}
+          simultaneousHandlers={pinchRef}
+          minPointers={1}
+          maxPointers={2}
+          onGestureEvent={onPanEvent}
+          onHandlerStateChange={onPanStateChange}>
+          <Animated.View>
+            <PinchGestureHandler
+              ref={pinchRef}
+              simultaneousHandlers={panRef}
+              onGestureEvent={onPinchEvent}
+              onHandlerStateChange={onPinchStateChange}>
+              <Animated.Image
+                source={{ uri }}
+                resizeMode="contain"
+                style={[style, { transform: [{ translateX }, { translateY }, { scale }] }]}
+              />
+            </PinchGestureHandler>
+          </Animated.View>
+        </PanGestureHandler>
+      </Animated.View>
+    </TapGestureHandler>
+  );
+}
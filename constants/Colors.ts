@@ -1,19 +1,68 @@
 const tintColorLight = '#2f95dc';
 const tintColorDark = '#fff';
 
+// Report status colors are the same in both schemes so a violation is the same
+// red on a card, a map pin and the result modal; only the tinted backgrounds
+// behind them follow the scheme.
+export const StatusColors = {
+  success: '#16a34a',
+  violation: '#dc2626',
+  warning: '#f59e0b',
+  pending: '#6b7280',
+  error: '#7c3aed',
+};
+
+export type StatusTone = keyof typeof StatusColors;
+
 export default {
   light: {
     text: '#000',
+    textMuted: '#666',
     background: '#fff',
+    screen: '#f2f2f2', // behind cards and lists
+    surface: '#fff', // cards, sheets, modals
+    surfaceMuted: '#e5e7eb', // chips, tracks, photo placeholders
+    border: '#ddd',
     tint: tintColorLight,
     tabIconDefault: '#ccc',
     tabIconSelected: tintColorLight,
+    tabBar: '#fff',
+    primary: '#007AFF',
+    onPrimary: '#fff',
+    secondary: '#555',
+    destructive: '#FF3B30',
+    highlight: '#fff4cc',
+    backdrop: 'rgba(0,0,0,0.6)',
+    ...StatusColors,
+    successSurface: '#dcfce7',
+    violationSurface: '#fee2e2',
+    warningSurface: '#fef3c7',
+    pendingSurface: '#f3f4f6',
+    errorSurface: '#ede9fe',
   },
   dark: {
     text: '#fff',
+    textMuted: '#a1a1aa',
     background: '#000',
+    screen: '#000',
+    surface: '#1c1c1e',
+    surfaceMuted: '#3a3a3c',
+    border: '#2a2a2a',
     tint: tintColorDark,
     tabIconDefault: '#ccc',
     tabIconSelected: tintColorDark,
+    tabBar: '#1f1f1f',
+    primary: '#0A84FF',
+    onPrimary: '#fff',
+    secondary: '#48484a',
+    destructive: '#FF453A',
+    highlight: '#4a3f12',
+    backdrop: 'rgba(0,0,0,0.7)',
+    ...StatusColors,
+    successSurface: '#14321f',
+    violationSurface: '#3b1414',
+    warningSurface: '#3a2a08',
+    pendingSurface: '#27272a',
+    errorSurface: '#2e1a4f',
   },
 };
@@ -0,0 +1,4 @@
+// Ed25519 public key of the licensing authority that signs billboard license
+// QR codes (base64). Rotate by shipping a new build; old QRs stay verifiable as
+// long as their key is listed here.
+export const LICENSE_PUBLIC_KEYS: string[] = ['MtcegXzRKMHmwQ0yuh7ZOwuLU3R9Dv7tg8FmISqPET0='];
@@ -0,0 +1,265 @@
+// English is the source catalog: every other language must define the same keys.
+// `{name}` placeholders are filled in by t().
+const en = {
+  'language.title': 'Language',
+  'language.system': 'System default',
+
+  'common.cancel': 'Cancel',
+  'common.close': 'Close',
+  'common.retry': 'Retry',
+
+  'tabs.camera': 'Camera',
+  'tabs.reports': 'Reports',
+  'tabs.map': 'Map',
+  'tabs.review': 'Review',
+  'signOut.title': 'Sign out',
+  'signOut.confirm': 'Do you want to sign out?',
+  'signOut.failed': 'Sign out failed',
+
+  'auth.subtitle': 'Sign in to submit and track your reports',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.emailCode': 'Email code',
+  'auth.code': '6-digit code',
+  'auth.signIn': 'Sign in',
+  'auth.sendCode': 'Send code',
+  'auth.verifyCode': 'Verify code',
+  'auth.codeSent': 'We sent a sign-in code to {email}',
+  'auth.otherEmail': 'Use a different email',
+  'auth.toSignUp': 'New here? Create an account',
+  'auth.createAccount': 'Create account',
+  'auth.confirmPassword': 'Confirm password',
+  'auth.passwordTooShort': 'Password must be at least {count} characters',
+  'auth.passwordMismatch': 'Passwords do not match',
+  'auth.confirmEmail': 'Check your inbox to confirm your email, then sign in.',
+  'auth.signUp': 'Sign up',
+  'auth.toSignIn': 'Already have an account? Sign in',
+  'auth.failed': 'Something went wrong',
+  'screen.report': 'Report',
+  'screen.settings': 'Developer settings',
+
+  // Short labels used on list cards and the detail header
+  'status.invalidImage': '⚠️ Invalid Image',
+  'status.violationDetected': '🚫 Violation Detected',
+  'status.allCorrect': '✅ All Correct',
+  'status.violation': '🚫 Violation',
+  'status.warning': '⚠️ Warning',
+  'status.error': '⛔ Error',
+  'status.queued': '🕓 Waiting to sync',
+  'status.pending': '⏳ Pending',
+
+  // Reasons the backend (or the app itself) puts in `message`
+  'reason.qr-found': 'QR found correctly',
+  'reason.invalid-qr-format': 'Invalid QR format',
+  'reason.missing-qr': 'Missing QR',
+  'reason.no-license-info': 'No license information detected',
+  'reason.no-billboard': 'No billboard detected',
+  'reason.out-of-zone': 'Out of allowed zone',
+  'reason.prohibited-zone': 'Inside prohibited zone',
+  'reason.school-buffer': 'Within school buffer zone',
+  'reason.outside-time': 'Outside allowed time',
+  'reason.license-expired': 'License expired on {date}',
+  'reason.license-forged': 'License QR signature is invalid',
+  'reason.saved-offline': 'Saved on device, waiting to sync',
+  'reason.stored': 'Report stored in Supabase',
+  'reason.upload-failed': 'Upload failed',
+  'reason.capture-failed': 'Could not capture or send photo',
+  'reason.policy-violation': 'Policy violation detected',
+
+  'result.noIssues': '✅ No Issues Detected',
+  'result.invalidImage': '⚠️ Invalid Image',
+  'result.queued': '🕓 Waiting to Sync',
+  'result.pending': '⏳ Analysis Pending',
+  'result.error': '⛔ Something Went Wrong',
+  'result.violation': '🚫 Violation Detected',
+  'result.licenseFound': '✅ License Information Detected',
+  'result.licenseMissing': '🚫 No License Information Detected',
+  'result.attached': '📎 Added to an existing report',
+  'hint.noBillboard': 'You are supposed to click a Billboard Picture',
+  'hint.missingLicense': 'Violation Report will be drafted Soon',
+  'hint.licenseOk': 'Sorry but there is no issue in the Billboard',
+
+  'camera.requestingPermissions': 'Requesting permissions...',
+  'camera.noAccess': 'No access to camera or location',
+  'camera.paused': 'Camera paused',
+  'camera.capture': 'Capture',
+  'camera.addShot': 'Add ({count}/{max})',
+  'camera.submit': 'Submit',
+  'camera.noFixTitle': '📍 No GPS Fix',
+  'camera.noFixBody': 'Could not determine your location. Move into the open and try again.',
+  'camera.mockTitle': '🚫 Mock Location Detected',
+  'camera.mockBody': 'Reports cannot be sent while a mock location app is active.',
+  'camera.weakTitle': '📍 Weak GPS Signal',
+  'camera.weakBody':
+    'GPS accuracy is {accuracy} (needs ±{max} m or better). The report will be flagged for review.',
+  'camera.accuracyUnknown': 'unknown',
+  'camera.sendFlagged': 'Send flagged',
+  'camera.cancelling': 'Cancelling & cleaning up...',
+  'camera.starting': 'Starting...',
+  'camera.step': 'Step {step} of {total}',
+  'camera.reviewTitle': 'Review before sending',
+  'camera.back': 'Back',
+  'camera.sendReport': 'Send report',
+  'camera.photosAttached': '📷 {count} photos attached',
+  'camera.userId': 'User ID: {id}',
+  'camera.flaggedWeakGps': '⚠️ Flagged: weak GPS signal',
+
+  'guide.toggle': 'Guided',
+  'guide.frame': 'Fit the whole hoarding inside the frame',
+  'guide.findQr': 'No license QR seen yet. Point the camera at the QR plate first.',
+  'guide.straighten': 'Hold the phone level',
+  'quality.title': '📷 Photo may not be usable',
+  'quality.body': 'This photo looks {issues}. Retake it?',
+  'quality.blurry': 'blurry',
+  'quality.dark': 'too dark',
+  'quality.tilted': 'tilted',
+  'quality.retake': 'Retake',
+  'quality.keep': 'Keep anyway',
+  'import.button': 'Import from gallery',
+  'import.pinTitle': 'Where were these photos taken?',
+  'import.pinHint': 'The photos have no location. Tap the map to place the hoarding, then drag the pin to adjust.',
+  'import.usePin': 'Use this location',
+
+  'stage.capture': '📸 Preparing photos',
+  'stage.locate': '📍 Getting GPS fix',
+  'stage.geocode': '🏠 Looking up address',
+  'stage.dedupe': '🔎 Checking for earlier reports',
+  'stage.upload': '☁️ Uploading photos',
+  'stage.insert': '🗂️ Saving report',
+  'stage.analyze': '🤖 Analyzing',
+
+  'duplicate.title': '📌 Already reported?',
+  'duplicate.body':
+    'A report from {date} looks like the same hoarding ({reasons}). Add your photos to it instead of filing a new one?',
+  'duplicate.nearby': '{distance} m away',
+  'duplicate.same-qr': 'same license QR',
+  'duplicate.similar-photo': 'similar photo',
+  'duplicate.attach': 'Add to existing',
+  'duplicate.fileNew': 'File new report',
+
+  'license.valid': '✅ License Verified',
+  'license.expired': '⌛ License Expired',
+  'license.forged': '🚫 Forged License QR',
+  'license.malformed': '⚠️ Unreadable License QR',
+  'license.unrecognized': '✅ QR Scanned!',
+  'license.number': 'No. {number}',
+  'license.size': 'Size {width} × {height} m',
+  'license.validUntil': 'Valid until {date}',
+
+  'annotate.dragHint': 'Drag on the photo to mark the hoarding',
+  'annotate.redrawHint': 'Drag again to redraw the box',
+  'annotate.clearBox': 'Clear box',
+  'annotate.violations': 'Violations seen',
+  'annotate.note': 'Note',
+  'annotate.notePlaceholder': 'What did you see? (optional)',
+  'annotate.hoardingType': 'Hoarding type',
+  'hoarding.standard': '🪧 Standard',
+  'hoarding.illuminated': '💡 Illuminated',
+  'hoarding.temporary-banner': '🎪 Temporary banner',
+  'category.oversized': '📏 Oversized',
+  'category.unlicensed': '🪪 Unlicensed',
+  'category.obscene-content': '🔞 Obscene content',
+  'category.traffic-obstruction': '🚧 Traffic obstruction',
+  'category.expired-license': '⌛ Expired license',
+
+  'rules.violated': '🕒 {name} [{id}]',
+  'rules.passed': '✅ {name} [{id}]',
+  'rules.checkedAt': 'Checked on the device against the capture time, {date}',
+
+  'reports.mine': 'My reports',
+  'reports.all': 'All reports',
+  'reports.loading': 'Loading reports...',
+  'reports.emptyFiltered': 'No reports match these filters.',
+  'reports.emptyMine': 'You have not submitted any reports yet.',
+  'reports.emptyAll': 'No reports submitted yet.',
+  'reports.offline': 'Could not load reports. Check your connection.',
+  'reports.cachedAt': 'Offline. Showing reports saved {date}.',
+  'reports.noDetails': 'No details',
+  'reports.selected': '{count} selected',
+
+  'export.button': 'Export',
+  'export.allTitle': 'Export all matching reports (up to {max})',
+  'export.selectedTitle': 'Export {count} selected reports',
+  'export.csv': 'Spreadsheet (CSV)',
+  'export.geojson': 'Map data (GeoJSON)',
+  'export.pdf': 'PDF case file with photos (up to {max})',
+  'export.empty': 'There are no reports to export.',
+  'export.failed': 'Export failed',
+  'export.cappedTitle': 'Case file shortened',
+  'export.cappedBody': 'The PDF holds the first {count} of {total} reports. Export as CSV or GeoJSON to get all of them.',
+
+  'reviewed.confirmed': '✔️ Violation confirmed',
+  'reviewed.dismissed': '✅ Dismissed on review',
+  'reviewed.escalated': '⬆️ Escalated',
+  'reviewed.automated': 'Automated result: {status}',
+
+  'review.loading': 'Loading the review queue...',
+  'review.empty': 'Nothing waiting for review.',
+  'review.emptyEscalated': 'No escalated reports.',
+  'review.queue.new': 'To review',
+  'review.queue.escalated': 'Escalated',
+  'review.notAllowed': 'Only reviewers can open this screen.',
+  'review.confirm': 'Confirm',
+  'review.dismiss': 'Dismiss',
+  'review.escalate': 'Escalate',
+  'review.reasonPlaceholder': 'Reason for this decision (required)',
+  'review.reasonTooShort': 'Give a reason of at least {min} characters.',
+  'review.save': 'Save decision',
+  'review.failed': 'Could not save the review',
+  'review.open': 'Open report',
+
+  'notify.title': 'Report update',
+  'notify.bodyAt': '{status} · {address}',
+  'notify.onTitle': '🔔 Notifications on',
+  'notify.onBody': 'You will be notified when one of your reports gets its final status.',
+  'notify.offTitle': '🔕 Notifications off',
+  'notify.offBody': 'You will not be notified about your reports on this device.',
+
+  'filters.search': 'Search address',
+  'filters.pending': '⏳ Pending',
+  'filters.violation': '🚫 Violation',
+  'filters.success': '✅ Correct',
+  'filters.error': '⛔ Error',
+  'filters.hasQr': '🔳 Has QR',
+  'filters.newest': 'Newest',
+  'filters.oldest': 'Oldest',
+  'filters.nearest': 'Nearest to me',
+  'filters.from': 'From: {date}',
+  'filters.to': 'To: {date}',
+  'filters.any': 'any',
+  'filters.clear': 'Clear',
+
+  'detail.loading': 'Loading report...',
+  'detail.notFound': 'Report not found.',
+  'detail.loadFailed': 'Could not load this report.',
+  'detail.cached': 'Offline. This is the saved copy; tap to try again.',
+  'detail.noPhoto': '📷 No photo',
+  'detail.analysis': 'Analysis',
+  'detail.noFindings': 'No findings recorded yet.',
+  'detail.inspectorNotes': 'Inspector notes',
+  'detail.boxOnPhoto': 'Hoarding marked on photo {number}',
+  'detail.evidence': 'More evidence ({count})',
+  'detail.rules': 'Schedule rules',
+  'detail.reviews': 'Review history',
+  'detail.reviewer': 'Reviewer {id}',
+  'detail.location': 'Location',
+  'detail.integrity': 'Capture integrity',
+  'detail.weakGps': '⚠️ Sent with a weak GPS signal',
+  'detail.poorPhoto': '⚠️ Sent with photos that failed the quality check',
+  'detail.imported': '📁 Imported from the gallery',
+  'detail.exifLocation': '📍 Location read from the photo, not a live GPS fix',
+  'detail.manualLocation': '📍 Location placed on the map by the reporter',
+  'detail.unknownTime': '⚠️ Photo time unknown, so time-of-day rules were not checked',
+  'detail.timeUnknown': 'unknown',
+  'detail.accuracy': '🎯 Accuracy {accuracy}',
+  'detail.fixTimes': 'GPS fix {fix} · device clock {device}',
+  'detail.share': 'Share',
+  'detail.copy': 'Copy',
+  'detail.copied': 'Copied',
+  'detail.copiedBody': 'Report details copied to clipboard',
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
+
+export default en as Messages;
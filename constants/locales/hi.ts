@@ -0,0 +1,260 @@
+import { Messages } from './en';
+
+const hi: Messages = {
+  'language.title': 'भाषा',
+  'language.system': 'सिस्टम डिफ़ॉल्ट',
+
+  'common.cancel': 'रद्द करें',
+  'common.close': 'बंद करें',
+  'common.retry': 'फिर से कोशिश करें',
+
+  'tabs.camera': 'कैमरा',
+  'tabs.reports': 'रिपोर्ट',
+  'tabs.map': 'नक्शा',
+  'tabs.review': 'समीक्षा',
+  'signOut.title': 'साइन आउट',
+  'signOut.confirm': 'क्या आप साइन आउट करना चाहते हैं?',
+  'signOut.failed': 'साइन आउट नहीं हो सका',
+
+  'auth.subtitle': 'अपनी रिपोर्ट भेजने और ट्रैक करने के लिए साइन इन करें',
+  'auth.email': 'ईमेल',
+  'auth.password': 'पासवर्ड',
+  'auth.emailCode': 'ईमेल कोड',
+  'auth.code': '6 अंकों का कोड',
+  'auth.signIn': 'साइन इन',
+  'auth.sendCode': 'कोड भेजें',
+  'auth.verifyCode': 'कोड जांचें',
+  'auth.codeSent': 'हमने {email} पर साइन-इन कोड भेजा है',
+  'auth.otherEmail': 'दूसरा ईमेल इस्तेमाल करें',
+  'auth.toSignUp': 'नए हैं? खाता बनाएं',
+  'auth.createAccount': 'खाता बनाएं',
+  'auth.confirmPassword': 'पासवर्ड की पुष्टि करें',
+  'auth.passwordTooShort': 'पासवर्ड कम से कम {count} अक्षरों का होना चाहिए',
+  'auth.passwordMismatch': 'पासवर्ड मेल नहीं खाते',
+  'auth.confirmEmail': 'अपना ईमेल पुष्टि करने के लिए इनबॉक्स देखें, फिर साइन इन करें।',
+  'auth.signUp': 'साइन अप',
+  'auth.toSignIn': 'पहले से खाता है? साइन इन करें',
+  'auth.failed': 'कुछ गलत हो गया',
+  'screen.report': 'रिपोर्ट',
+  'screen.settings': 'डेवलपर सेटिंग्स',
+
+  'status.invalidImage': '⚠️ अमान्य फ़ोटो',
+  'status.violationDetected': '🚫 उल्लंघन पाया गया',
+  'status.allCorrect': '✅ सब सही है',
+  'status.violation': '🚫 उल्लंघन',
+  'status.warning': '⚠️ चेतावनी',
+  'status.error': '⛔ त्रुटि',
+  'status.queued': '🕓 सिंक की प्रतीक्षा में',
+  'status.pending': '⏳ लंबित',
+
+  'reason.qr-found': 'QR सही पाया गया',
+  'reason.invalid-qr-format': 'QR का प्रारूप अमान्य है',
+  'reason.missing-qr': 'QR नहीं मिला',
+  'reason.no-license-info': 'लाइसेंस की जानकारी नहीं मिली',
+  'reason.no-billboard': 'कोई होर्डिंग नहीं मिला',
+  'reason.out-of-zone': 'अनुमत क्षेत्र से बाहर',
+  'reason.prohibited-zone': 'प्रतिबंधित क्षेत्र के अंदर',
+  'reason.school-buffer': 'स्कूल बफ़र क्षेत्र के अंदर',
+  'reason.outside-time': 'अनुमत समय के बाहर',
+  'reason.license-expired': 'लाइसेंस {date} को समाप्त हो गया',
+  'reason.license-forged': 'लाइसेंस QR का हस्ताक्षर अमान्य है',
+  'reason.saved-offline': 'डिवाइस पर सहेजा गया, सिंक की प्रतीक्षा में',
+  'reason.stored': 'रिपोर्ट सहेज ली गई',
+  'reason.upload-failed': 'अपलोड विफल रहा',
+  'reason.capture-failed': 'फ़ोटो लेना या भेजना संभव नहीं हुआ',
+  'reason.policy-violation': 'नीति उल्लंघन पाया गया',
+
+  'result.noIssues': '✅ कोई समस्या नहीं मिली',
+  'result.invalidImage': '⚠️ अमान्य फ़ोटो',
+  'result.queued': '🕓 सिंक की प्रतीक्षा में',
+  'result.pending': '⏳ विश्लेषण लंबित',
+  'result.error': '⛔ कुछ गलत हो गया',
+  'result.violation': '🚫 उल्लंघन पाया गया',
+  'result.licenseFound': '✅ लाइसेंस की जानकारी मिली',
+  'result.licenseMissing': '🚫 लाइसेंस की जानकारी नहीं मिली',
+  'result.attached': '📎 मौजूदा रिपोर्ट में जोड़ा गया',
+  'hint.noBillboard': 'कृपया होर्डिंग की फ़ोटो लें',
+  'hint.missingLicense': 'उल्लंघन रिपोर्ट जल्द तैयार की जाएगी',
+  'hint.licenseOk': 'इस होर्डिंग में कोई समस्या नहीं है',
+
+  'camera.requestingPermissions': 'अनुमतियाँ माँगी जा रही हैं...',
+  'camera.noAccess': 'कैमरा या लोकेशन की अनुमति नहीं है',
+  'camera.paused': 'कैमरा रुका हुआ है',
+  'camera.capture': 'फ़ोटो लें',
+  'camera.addShot': 'जोड़ें ({count}/{max})',
+  'camera.submit': 'भेजें',
+  'camera.noFixTitle': '📍 GPS लोकेशन नहीं मिली',
+  'camera.noFixBody': 'आपकी लोकेशन पता नहीं चल सकी। खुली जगह पर जाकर फिर कोशिश करें।',
+  'camera.mockTitle': '🚫 नकली लोकेशन पाई गई',
+  'camera.mockBody': 'नकली लोकेशन ऐप चालू रहते रिपोर्ट नहीं भेजी जा सकती।',
+  'camera.weakTitle': '📍 कमज़ोर GPS सिग्नल',
+  'camera.weakBody':
+    'GPS सटीकता {accuracy} है (±{max} मी या बेहतर चाहिए)। रिपोर्ट को समीक्षा के लिए चिह्नित किया जाएगा।',
+  'camera.accuracyUnknown': 'अज्ञात',
+  'camera.sendFlagged': 'चिह्नित करके भेजें',
+  'camera.cancelling': 'रद्द करके साफ़ किया जा रहा है...',
+  'camera.starting': 'शुरू हो रहा है...',
+  'camera.step': 'चरण {step} / {total}',
+  'camera.reviewTitle': 'भेजने से पहले जाँचें',
+  'camera.back': 'वापस',
+  'camera.sendReport': 'रिपोर्ट भेजें',
+  'camera.photosAttached': '📷 {count} फ़ोटो जुड़ी हैं',
+  'camera.userId': 'यूज़र ID: {id}',
+  'camera.flaggedWeakGps': '⚠️ चिह्नित: कमज़ोर GPS सिग्नल',
+
+  'guide.toggle': 'गाइड',
+  'guide.frame': 'पूरे होर्डिंग को फ़्रेम के अंदर रखें',
+  'guide.findQr': 'अभी तक कोई लाइसेंस QR नहीं दिखा। पहले कैमरा QR प्लेट की ओर करें।',
+  'guide.straighten': 'फ़ोन को सीधा रखें',
+  'quality.title': '📷 फ़ोटो शायद काम की नहीं है',
+  'quality.body': 'यह फ़ोटो {issues} लग रही है। दोबारा लें?',
+  'quality.blurry': 'धुंधली',
+  'quality.dark': 'बहुत अँधेरी',
+  'quality.tilted': 'तिरछी',
+  'quality.retake': 'दोबारा लें',
+  'quality.keep': 'फिर भी रखें',
+  'import.button': 'गैलरी से लें',
+  'import.pinTitle': 'ये फ़ोटो कहाँ ली गई थीं?',
+  'import.pinHint': 'फ़ोटो में कोई स्थान नहीं है। होर्डिंग की जगह चुनने के लिए मैप पर टैप करें, फिर पिन खींचकर ठीक करें।',
+  'import.usePin': 'यह स्थान चुनें',
+
+  'stage.capture': '📸 फ़ोटो तैयार की जा रही हैं',
+  'stage.locate': '📍 GPS लोकेशन ली जा रही है',
+  'stage.geocode': '🏠 पता खोजा जा रहा है',
+  'stage.dedupe': '🔎 पुरानी रिपोर्ट देखी जा रही हैं',
+  'stage.upload': '☁️ फ़ोटो अपलोड हो रही हैं',
+  'stage.insert': '🗂️ रिपोर्ट सहेजी जा रही है',
+  'stage.analyze': '🤖 विश्लेषण हो रहा है',
+
+  'duplicate.title': '📌 पहले ही रिपोर्ट हो चुकी है?',
+  'duplicate.body':
+    '{date} की एक रिपोर्ट इसी होर्डिंग की लगती है ({reasons})। नई रिपोर्ट बनाने के बजाय अपनी फ़ोटो उसमें जोड़ें?',
+  'duplicate.nearby': '{distance} मी दूर',
+  'duplicate.same-qr': 'वही लाइसेंस QR',
+  'duplicate.similar-photo': 'मिलती-जुलती फ़ोटो',
+  'duplicate.attach': 'मौजूदा में जोड़ें',
+  'duplicate.fileNew': 'नई रिपोर्ट बनाएँ',
+
+  'license.valid': '✅ लाइसेंस सत्यापित',
+  'license.expired': '⌛ लाइसेंस समाप्त',
+  'license.forged': '🚫 जाली लाइसेंस QR',
+  'license.malformed': '⚠️ लाइसेंस QR पढ़ा नहीं जा सका',
+  'license.unrecognized': '✅ QR स्कैन हुआ!',
+  'license.number': 'नं. {number}',
+  'license.size': 'आकार {width} × {height} मी',
+  'license.validUntil': '{date} तक मान्य',
+
+  'annotate.dragHint': 'होर्डिंग चिह्नित करने के लिए फ़ोटो पर खींचें',
+  'annotate.redrawHint': 'बॉक्स दोबारा बनाने के लिए फिर से खींचें',
+  'annotate.clearBox': 'बॉक्स हटाएँ',
+  'annotate.violations': 'देखे गए उल्लंघन',
+  'annotate.note': 'टिप्पणी',
+  'annotate.notePlaceholder': 'आपने क्या देखा? (वैकल्पिक)',
+  'annotate.hoardingType': 'होर्डिंग का प्रकार',
+  'hoarding.standard': '🪧 सामान्य',
+  'hoarding.illuminated': '💡 रोशनी वाला',
+  'hoarding.temporary-banner': '🎪 अस्थायी बैनर',
+  'category.oversized': '📏 तय आकार से बड़ा',
+  'category.unlicensed': '🪪 बिना लाइसेंस',
+  'category.obscene-content': '🔞 अश्लील सामग्री',
+  'category.traffic-obstruction': '🚧 यातायात में बाधा',
+  'category.expired-license': '⌛ समाप्त लाइसेंस',
+
+  'rules.violated': '🕒 {name} [{id}]',
+  'rules.passed': '✅ {name} [{id}]',
+  'rules.checkedAt': 'डिवाइस पर फ़ोटो के समय {date} के अनुसार जाँचा गया',
+
+  'reports.mine': 'मेरी रिपोर्ट',
+  'reports.all': 'सभी रिपोर्ट',
+  'reports.loading': 'रिपोर्ट लोड हो रही हैं...',
+  'reports.emptyFiltered': 'इन फ़िल्टर से कोई रिपोर्ट मेल नहीं खाती।',
+  'reports.emptyMine': 'आपने अभी तक कोई रिपोर्ट नहीं भेजी है।',
+  'reports.emptyAll': 'अभी तक कोई रिपोर्ट नहीं भेजी गई है।',
+  'reports.offline': 'रिपोर्ट लोड नहीं हो सकीं। अपना कनेक्शन जाँचें।',
+  'reports.cachedAt': 'ऑफ़लाइन। {date} को सहेजी गई रिपोर्ट दिख रही हैं।',
+  'reports.noDetails': 'कोई विवरण नहीं',
+  'reports.selected': '{count} चुनी गईं',
+
+  'export.button': 'निर्यात',
+  'export.allTitle': 'मेल खाने वाली सभी रिपोर्ट निर्यात करें ({max} तक)',
+  'export.selectedTitle': 'चुनी गई {count} रिपोर्ट निर्यात करें',
+  'export.csv': 'स्प्रेडशीट (CSV)',
+  'export.geojson': 'नक्शा डेटा (GeoJSON)',
+  'export.pdf': 'फ़ोटो सहित PDF केस फ़ाइल ({max} तक)',
+  'export.empty': 'निर्यात के लिए कोई रिपोर्ट नहीं है।',
+  'export.failed': 'निर्यात नहीं हो सका',
+  'export.cappedTitle': 'केस फ़ाइल छोटी की गई',
+  'export.cappedBody': 'PDF में {total} में से पहली {count} रिपोर्ट हैं। सभी के लिए CSV या GeoJSON में निर्यात करें।',
+
+  'reviewed.confirmed': '✔️ उल्लंघन की पुष्टि हुई',
+  'reviewed.dismissed': '✅ समीक्षा में खारिज',
+  'reviewed.escalated': '⬆️ आगे भेजा गया',
+  'reviewed.automated': 'स्वचालित परिणाम: {status}',
+
+  'review.loading': 'समीक्षा सूची लोड हो रही है...',
+  'review.empty': 'समीक्षा के लिए कुछ भी बाकी नहीं है।',
+  'review.emptyEscalated': 'आगे भेजी गई कोई रिपोर्ट नहीं।',
+  'review.queue.new': 'समीक्षा के लिए',
+  'review.queue.escalated': 'आगे भेजी गई',
+  'review.notAllowed': 'यह स्क्रीन केवल समीक्षक खोल सकते हैं।',
+  'review.confirm': 'पुष्टि करें',
+  'review.dismiss': 'खारिज करें',
+  'review.escalate': 'आगे भेजें',
+  'review.reasonPlaceholder': 'इस निर्णय का कारण (आवश्यक)',
+  'review.reasonTooShort': 'कम से कम {min} अक्षरों का कारण लिखें।',
+  'review.save': 'निर्णय सहेजें',
+  'review.failed': 'समीक्षा सहेजी नहीं जा सकी',
+  'review.open': 'रिपोर्ट खोलें',
+
+  'notify.title': 'रिपोर्ट अपडेट',
+  'notify.bodyAt': '{status} · {address}',
+  'notify.onTitle': '🔔 सूचनाएँ चालू',
+  'notify.onBody': 'आपकी किसी रिपोर्ट का अंतिम परिणाम आने पर आपको सूचना मिलेगी।',
+  'notify.offTitle': '🔕 सूचनाएँ बंद',
+  'notify.offBody': 'इस डिवाइस पर आपको अपनी रिपोर्ट की सूचनाएँ नहीं मिलेंगी।',
+
+  'filters.search': 'पता खोजें',
+  'filters.pending': '⏳ लंबित',
+  'filters.violation': '🚫 उल्लंघन',
+  'filters.success': '✅ सही',
+  'filters.error': '⛔ त्रुटि',
+  'filters.hasQr': '🔳 QR वाली',
+  'filters.newest': 'नई पहले',
+  'filters.oldest': 'पुरानी पहले',
+  'filters.nearest': 'मेरे सबसे पास',
+  'filters.from': 'से: {date}',
+  'filters.to': 'तक: {date}',
+  'filters.any': 'कोई भी',
+  'filters.clear': 'साफ़ करें',
+
+  'detail.loading': 'रिपोर्ट लोड हो रही है...',
+  'detail.notFound': 'रिपोर्ट नहीं मिली।',
+  'detail.loadFailed': 'यह रिपोर्ट लोड नहीं हो सकी।',
+  'detail.cached': 'ऑफ़लाइन। यह सहेजी गई प्रति है; दोबारा कोशिश करने के लिए टैप करें।',
+  'detail.noPhoto': '📷 कोई फ़ोटो नहीं',
+  'detail.analysis': 'विश्लेषण',
+  'detail.noFindings': 'अभी तक कोई निष्कर्ष दर्ज नहीं है।',
+  'detail.inspectorNotes': 'निरीक्षक की टिप्पणियाँ',
+  'detail.boxOnPhoto': 'फ़ोटो {number} पर होर्डिंग चिह्नित है',
+  'detail.evidence': 'अतिरिक्त सबूत ({count})',
+  'detail.rules': 'समय के नियम',
+  'detail.reviews': 'समीक्षा इतिहास',
+  'detail.reviewer': 'समीक्षक {id}',
+  'detail.location': 'लोकेशन',
+  'detail.integrity': 'फ़ोटो की प्रामाणिकता',
+  'detail.weakGps': '⚠️ कमज़ोर GPS सिग्नल के साथ भेजी गई',
+  'detail.poorPhoto': '⚠️ गुणवत्ता जाँच में विफल फ़ोटो के साथ भेजी गई',
+  'detail.imported': '📁 गैलरी से ली गई',
+  'detail.exifLocation': '📍 स्थान फ़ोटो से पढ़ा गया, लाइव GPS से नहीं',
+  'detail.manualLocation': '📍 स्थान रिपोर्टर ने मैप पर चुना',
+  'detail.unknownTime': '⚠️ फ़ोटो का समय अज्ञात है, इसलिए समय के नियम नहीं जाँचे गए',
+  'detail.timeUnknown': 'अज्ञात',
+  'detail.accuracy': '🎯 सटीकता {accuracy}',
+  'detail.fixTimes': 'GPS समय {fix} · डिवाइस समय {device}',
+  'detail.share': 'शेयर करें',
+  'detail.copy': 'कॉपी करें',
+  'detail.copied': 'कॉपी हो गया',
+  'detail.copiedBody': 'रिपोर्ट का विवरण क्लिपबोर्ड पर कॉपी हो गया',
+};
+
+export default hi;
@@ -0,0 +1,260 @@
+import { Messages } from './en';
+
+const or: Messages = {
+  'language.title': 'ଭାଷା',
+  'language.system': 'ସିଷ୍ଟମ ଡିଫଲ୍ଟ',
+
+  'common.cancel': 'ବାତିଲ କରନ୍ତୁ',
+  'common.close': 'ବନ୍ଦ କରନ୍ତୁ',
+  'common.retry': 'ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ',
+
+  'tabs.camera': 'କ୍ୟାମେରା',
+  'tabs.reports': 'ରିପୋର୍ଟ',
+  'tabs.map': 'ମାନଚିତ୍ର',
+  'tabs.review': 'ସମୀକ୍ଷା',
+  'signOut.title': 'ସାଇନ ଆଉଟ',
+  'signOut.confirm': 'ଆପଣ ସାଇନ ଆଉଟ କରିବାକୁ ଚାହାଁନ୍ତି କି?',
+  'signOut.failed': 'ସାଇନ ଆଉଟ ହୋଇପାରିଲା ନାହିଁ',
+
+  'auth.subtitle': 'ଆପଣଙ୍କ ରିପୋର୍ଟ ପଠାଇବା ଓ ଟ୍ରାକ କରିବା ପାଇଁ ସାଇନ ଇନ କରନ୍ତୁ',
+  'auth.email': 'ଇମେଲ',
+  'auth.password': 'ପାସୱାର୍ଡ',
+  'auth.emailCode': 'ଇମେଲ କୋଡ',
+  'auth.code': '6 ଅଙ୍କର କୋଡ',
+  'auth.signIn': 'ସାଇନ ଇନ',
+  'auth.sendCode': 'କୋଡ ପଠାନ୍ତୁ',
+  'auth.verifyCode': 'କୋଡ ଯାଞ୍ଚ କରନ୍ତୁ',
+  'auth.codeSent': 'ଆମେ {email} କୁ ସାଇନ-ଇନ କୋଡ ପଠାଇଛୁ',
+  'auth.otherEmail': 'ଅନ୍ୟ ଇମେଲ ବ୍ୟବହାର କରନ୍ତୁ',
+  'auth.toSignUp': 'ନୂଆ କି? ଖାତା ତିଆରି କରନ୍ତୁ',
+  'auth.createAccount': 'ଖାତା ତିଆରି କରନ୍ତୁ',
+  'auth.confirmPassword': 'ପାସୱାର୍ଡ ନିଶ୍ଚିତ କରନ୍ତୁ',
+  'auth.passwordTooShort': 'ପାସୱାର୍ଡ ଅତି କମରେ {count} ଅକ୍ଷରର ହେବା ଦରକାର',
+  'auth.passwordMismatch': 'ପାସୱାର୍ଡ ମେଳ ଖାଉନାହିଁ',
+  'auth.confirmEmail': 'ଆପଣଙ୍କ ଇମେଲ ନିଶ୍ଚିତ କରିବାକୁ ଇନବକ୍ସ ଦେଖନ୍ତୁ, ତା\'ପରେ ସାଇନ ଇନ କରନ୍ତୁ।',
+  'auth.signUp': 'ସାଇନ ଅପ',
+  'auth.toSignIn': 'ପୂର୍ବରୁ ଖାତା ଅଛି? ସାଇନ ଇନ କରନ୍ତୁ',
+  'auth.failed': 'କିଛି ଭୁଲ ହୋଇଗଲା',
+  'screen.report': 'ରିପୋର୍ଟ',
+  'screen.settings': 'ଡେଭଲପର ସେଟିଂସ',
+
+  'status.invalidImage': '⚠️ ଅବୈଧ ଫଟୋ',
+  'status.violationDetected': '🚫 ଉଲ୍ଲଂଘନ ଚିହ୍ନଟ ହେଲା',
+  'status.allCorrect': '✅ ସବୁ ଠିକ ଅଛି',
+  'status.violation': '🚫 ଉଲ୍ଲଂଘନ',
+  'status.warning': '⚠️ ଚେତାବନୀ',
+  'status.error': '⛔ ତ୍ରୁଟି',
+  'status.queued': '🕓 ସିଙ୍କ ପାଇଁ ଅପେକ୍ଷାରେ',
+  'status.pending': '⏳ ବାକି ଅଛି',
+
+  'reason.qr-found': 'QR ଠିକ ଭାବେ ମିଳିଲା',
+  'reason.invalid-qr-format': 'QR ଫର୍ମାଟ ଅବୈଧ',
+  'reason.missing-qr': 'QR ମିଳିଲା ନାହିଁ',
+  'reason.no-license-info': 'ଲାଇସେନ୍ସ ସୂଚନା ମିଳିଲା ନାହିଁ',
+  'reason.no-billboard': 'କୌଣସି ହୋର୍ଡିଂ ମିଳିଲା ନାହିଁ',
+  'reason.out-of-zone': 'ଅନୁମୋଦିତ ଅଞ୍ଚଳ ବାହାରେ',
+  'reason.prohibited-zone': 'ନିଷିଦ୍ଧ ଅଞ୍ଚଳ ଭିତରେ',
+  'reason.school-buffer': 'ସ୍କୁଲ ବଫର ଅଞ୍ଚଳ ଭିତରେ',
+  'reason.outside-time': 'ଅନୁମୋଦିତ ସମୟ ବାହାରେ',
+  'reason.license-expired': 'ଲାଇସେନ୍ସ {date} ରେ ସମାପ୍ତ ହୋଇଛି',
+  'reason.license-forged': 'ଲାଇସେନ୍ସ QR ର ସ୍ୱାକ୍ଷର ଅବୈଧ',
+  'reason.saved-offline': 'ଡିଭାଇସରେ ସେଭ ହେଲା, ସିଙ୍କ ପାଇଁ ଅପେକ୍ଷାରେ',
+  'reason.stored': 'ରିପୋର୍ଟ ସେଭ ହେଲା',
+  'reason.upload-failed': 'ଅପଲୋଡ ବିଫଳ ହେଲା',
+  'reason.capture-failed': 'ଫଟୋ ଉଠାଇବା କିମ୍ବା ପଠାଇବା ସମ୍ଭବ ହେଲା ନାହିଁ',
+  'reason.policy-violation': 'ନୀତି ଉଲ୍ଲଂଘନ ଚିହ୍ନଟ ହେଲା',
+
+  'result.noIssues': '✅ କୌଣସି ସମସ୍ୟା ମିଳିଲା ନାହିଁ',
+  'result.invalidImage': '⚠️ ଅବୈଧ ଫଟୋ',
+  'result.queued': '🕓 ସିଙ୍କ ପାଇଁ ଅପେକ୍ଷାରେ',
+  'result.pending': '⏳ ବିଶ୍ଳେଷଣ ବାକି ଅଛି',
+  'result.error': '⛔ କିଛି ଭୁଲ ହୋଇଗଲା',
+  'result.violation': '🚫 ଉଲ୍ଲଂଘନ ଚିହ୍ନଟ ହେଲା',
+  'result.licenseFound': '✅ ଲାଇସେନ୍ସ ସୂଚନା ମିଳିଲା',
+  'result.licenseMissing': '🚫 ଲାଇସେନ୍ସ ସୂଚନା ମିଳିଲା ନାହିଁ',
+  'result.attached': '📎 ପୂର୍ବରୁ ଥିବା ରିପୋର୍ଟରେ ଯୋଡାଗଲା',
+  'hint.noBillboard': 'ଦୟାକରି ହୋର୍ଡିଂର ଫଟୋ ଉଠାନ୍ତୁ',
+  'hint.missingLicense': 'ଉଲ୍ଲଂଘନ ରିପୋର୍ଟ ଶୀଘ୍ର ପ୍ରସ୍ତୁତ ହେବ',
+  'hint.licenseOk': 'ଏହି ହୋର୍ଡିଂରେ କୌଣସି ସମସ୍ୟା ନାହିଁ',
+
+  'camera.requestingPermissions': 'ଅନୁମତି ମଗାଯାଉଛି...',
+  'camera.noAccess': 'କ୍ୟାମେରା କିମ୍ବା ଲୋକେସନ ଅନୁମତି ନାହିଁ',
+  'camera.paused': 'କ୍ୟାମେରା ବନ୍ଦ ଅଛି',
+  'camera.capture': 'ଫଟୋ ଉଠାନ୍ତୁ',
+  'camera.addShot': 'ଯୋଡନ୍ତୁ ({count}/{max})',
+  'camera.submit': 'ପଠାନ୍ତୁ',
+  'camera.noFixTitle': '📍 GPS ଲୋକେସନ ମିଳିଲା ନାହିଁ',
+  'camera.noFixBody': 'ଆପଣଙ୍କ ଲୋକେସନ ଜଣାପଡିଲା ନାହିଁ। ଖୋଲା ଜାଗାକୁ ଯାଇ ପୁଣି ଚେଷ୍ଟା କରନ୍ତୁ।',
+  'camera.mockTitle': '🚫 ନକଲି ଲୋକେସନ ଚିହ୍ନଟ ହେଲା',
+  'camera.mockBody': 'ନକଲି ଲୋକେସନ ଆପ ଚାଲୁ ଥିବାବେଳେ ରିପୋର୍ଟ ପଠାଯାଇପାରିବ ନାହିଁ।',
+  'camera.weakTitle': '📍 ଦୁର୍ବଳ GPS ସିଗନାଲ',
+  'camera.weakBody':
+    'GPS ସଠିକତା {accuracy} (±{max} ମି କିମ୍ବା ଭଲ ଦରକାର)। ରିପୋର୍ଟଟି ସମୀକ୍ଷା ପାଇଁ ଚିହ୍ନିତ ହେବ।',
+  'camera.accuracyUnknown': 'ଅଜଣା',
+  'camera.sendFlagged': 'ଚିହ୍ନିତ କରି ପଠାନ୍ତୁ',
+  'camera.cancelling': 'ବାତିଲ କରି ସଫା କରାଯାଉଛି...',
+  'camera.starting': 'ଆରମ୍ଭ ହେଉଛି...',
+  'camera.step': 'ପଦକ୍ଷେପ {step} / {total}',
+  'camera.reviewTitle': 'ପଠାଇବା ପୂର୍ବରୁ ଯାଞ୍ଚ କରନ୍ତୁ',
+  'camera.back': 'ପଛକୁ',
+  'camera.sendReport': 'ରିପୋର୍ଟ ପଠାନ୍ତୁ',
+  'camera.photosAttached': '📷 {count}ଟି ଫଟୋ ଯୋଡାଯାଇଛି',
+  'camera.userId': 'ୟୁଜର ID: {id}',
+  'camera.flaggedWeakGps': '⚠️ ଚିହ୍ନିତ: ଦୁର୍ବଳ GPS ସିଗନାଲ',
+
+  'guide.toggle': 'ଗାଇଡ୍',
+  'guide.frame': 'ସମଗ୍ର ହୋର୍ଡିଂକୁ ଫ୍ରେମ୍ ଭିତରେ ରଖନ୍ତୁ',
+  'guide.findQr': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଲାଇସେନ୍ସ QR ଦେଖାଯାଇନାହିଁ। ପ୍ରଥମେ କ୍ୟାମେରାକୁ QR ପ୍ଲେଟ୍ ଆଡ଼କୁ କରନ୍ତୁ।',
+  'guide.straighten': 'ଫୋନକୁ ସିଧା ରଖନ୍ତୁ',
+  'quality.title': '📷 ଫଟୋ ହୁଏତ ବ୍ୟବହାରଯୋଗ୍ୟ ନୁହେଁ',
+  'quality.body': 'ଏହି ଫଟୋ {issues} ଦେଖାଯାଉଛି। ପୁଣି ନେବେ?',
+  'quality.blurry': 'ଅସ୍ପଷ୍ଟ',
+  'quality.dark': 'ବହୁତ ଅନ୍ଧାର',
+  'quality.tilted': 'ବଙ୍କା',
+  'quality.retake': 'ପୁଣି ନିଅନ୍ତୁ',
+  'quality.keep': 'ତଥାପି ରଖନ୍ତୁ',
+  'import.button': 'ଗ୍ୟାଲେରୀରୁ ଆଣନ୍ତୁ',
+  'import.pinTitle': 'ଏହି ଫଟୋଗୁଡ଼ିକ କେଉଁଠି ନିଆଯାଇଥିଲା?',
+  'import.pinHint': 'ଫଟୋରେ କୌଣସି ସ୍ଥାନ ନାହିଁ। ହୋର୍ଡିଂର ସ୍ଥାନ ବାଛିବାକୁ ମାନଚିତ୍ରରେ ଟାପ୍ କରନ୍ତୁ, ତାପରେ ପିନ୍ ଟାଣି ଠିକ୍ କରନ୍ତୁ।',
+  'import.usePin': 'ଏହି ସ୍ଥାନ ବ୍ୟବହାର କରନ୍ତୁ',
+
+  'stage.capture': '📸 ଫଟୋ ପ୍ରସ୍ତୁତ ହେଉଛି',
+  'stage.locate': '📍 GPS ଲୋକେସନ ନିଆଯାଉଛି',
+  'stage.geocode': '🏠 ଠିକଣା ଖୋଜାଯାଉଛି',
+  'stage.dedupe': '🔎 ପୂର୍ବ ରିପୋର୍ଟ ଯାଞ୍ଚ ହେଉଛି',
+  'stage.upload': '☁️ ଫଟୋ ଅପଲୋଡ ହେଉଛି',
+  'stage.insert': '🗂️ ରିପୋର୍ଟ ସେଭ ହେଉଛି',
+  'stage.analyze': '🤖 ବିଶ୍ଳେଷଣ ହେଉଛି',
+
+  'duplicate.title': '📌 ପୂର୍ବରୁ ରିପୋର୍ଟ ହୋଇସାରିଛି?',
+  'duplicate.body':
+    '{date} ର ଏକ ରିପୋର୍ଟ ଏହି ସମାନ ହୋର୍ଡିଂର ପରି ଲାଗୁଛି ({reasons})। ନୂଆ ରିପୋର୍ଟ ବଦଳରେ ଆପଣଙ୍କ ଫଟୋ ସେଥିରେ ଯୋଡିବେ କି?',
+  'duplicate.nearby': '{distance} ମି ଦୂରରେ',
+  'duplicate.same-qr': 'ସମାନ ଲାଇସେନ୍ସ QR',
+  'duplicate.similar-photo': 'ସମାନ ଫଟୋ',
+  'duplicate.attach': 'ପୂର୍ବ ରିପୋର୍ଟରେ ଯୋଡନ୍ତୁ',
+  'duplicate.fileNew': 'ନୂଆ ରିପୋର୍ଟ କରନ୍ତୁ',
+
+  'license.valid': '✅ ଲାଇସେନ୍ସ ଯାଞ୍ଚ ହେଲା',
+  'license.expired': '⌛ ଲାଇସେନ୍ସ ସମାପ୍ତ',
+  'license.forged': '🚫 ଜାଲ ଲାଇସେନ୍ସ QR',
+  'license.malformed': '⚠️ ଲାଇସେନ୍ସ QR ପଢାଯାଇପାରିଲା ନାହିଁ',
+  'license.unrecognized': '✅ QR ସ୍କାନ ହେଲା!',
+  'license.number': 'ନଂ. {number}',
+  'license.size': 'ଆକାର {width} × {height} ମି',
+  'license.validUntil': '{date} ପର୍ଯ୍ୟନ୍ତ ବୈଧ',
+
+  'annotate.dragHint': 'ହୋର୍ଡିଂ ଚିହ୍ନିତ କରିବାକୁ ଫଟୋ ଉପରେ ଟାଣନ୍ତୁ',
+  'annotate.redrawHint': 'ବକ୍ସ ପୁଣି ଆଙ୍କିବାକୁ ପୁଣି ଟାଣନ୍ତୁ',
+  'annotate.clearBox': 'ବକ୍ସ ହଟାନ୍ତୁ',
+  'annotate.violations': 'ଦେଖାଯାଇଥିବା ଉଲ୍ଲଂଘନ',
+  'annotate.note': 'ଟିପ୍ପଣୀ',
+  'annotate.notePlaceholder': 'ଆପଣ କ’ଣ ଦେଖିଲେ? (ବୈକଳ୍ପିକ)',
+  'annotate.hoardingType': 'ହୋର୍ଡିଂର ପ୍ରକାର',
+  'hoarding.standard': '🪧 ସାଧାରଣ',
+  'hoarding.illuminated': '💡 ଆଲୋକିତ',
+  'hoarding.temporary-banner': '🎪 ଅସ୍ଥାୟୀ ବ୍ୟାନର',
+  'category.oversized': '📏 ନିର୍ଦ୍ଧାରିତ ଆକାରରୁ ବଡ',
+  'category.unlicensed': '🪪 ଲାଇସେନ୍ସ ବିନା',
+  'category.obscene-content': '🔞 ଅଶ୍ଳୀଳ ବିଷୟବସ୍ତୁ',
+  'category.traffic-obstruction': '🚧 ଯାତାୟାତରେ ବାଧା',
+  'category.expired-license': '⌛ ସମାପ୍ତ ଲାଇସେନ୍ସ',
+
+  'rules.violated': '🕒 {name} [{id}]',
+  'rules.passed': '✅ {name} [{id}]',
+  'rules.checkedAt': 'ଡିଭାଇସରେ ଫଟୋ ସମୟ {date} ଅନୁସାରେ ଯାଞ୍ଚ କରାଗଲା',
+
+  'reports.mine': 'ମୋ ରିପୋର୍ଟ',
+  'reports.all': 'ସମସ୍ତ ରିପୋର୍ଟ',
+  'reports.loading': 'ରିପୋର୍ଟ ଲୋଡ ହେଉଛି...',
+  'reports.emptyFiltered': 'ଏହି ଫିଲ୍ଟର ସହ କୌଣସି ରିପୋର୍ଟ ମେଳ ଖାଉନାହିଁ।',
+  'reports.emptyMine': 'ଆପଣ ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ରିପୋର୍ଟ ପଠାଇନାହାଁନ୍ତି।',
+  'reports.emptyAll': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ରିପୋର୍ଟ ପଠାଯାଇନାହିଁ।',
+  'reports.offline': 'ରିପୋର୍ଟ ଲୋଡ୍ ହୋଇପାରିଲା ନାହିଁ। ଆପଣଙ୍କ ସଂଯୋଗ ଯାଞ୍ଚ କରନ୍ତୁ।',
+  'reports.cachedAt': 'ଅଫଲାଇନ୍। {date} ରେ ସେଭ୍ ହୋଇଥିବା ରିପୋର୍ଟ ଦେଖାଯାଉଛି।',
+  'reports.noDetails': 'କୌଣସି ବିବରଣୀ ନାହିଁ',
+  'reports.selected': '{count} ଚୟନ ହୋଇଛି',
+
+  'export.button': 'ରପ୍ତାନି',
+  'export.allTitle': 'ମେଳ ଖାଉଥିବା ସମସ୍ତ ରିପୋର୍ଟ ରପ୍ତାନି କରନ୍ତୁ ({max} ପର୍ଯ୍ୟନ୍ତ)',
+  'export.selectedTitle': 'ଚୟନିତ {count}ଟି ରିପୋର୍ଟ ରପ୍ତାନି କରନ୍ତୁ',
+  'export.csv': 'ସ୍ପ୍ରେଡସିଟ୍ (CSV)',
+  'export.geojson': 'ମାନଚିତ୍ର ଡାଟା (GeoJSON)',
+  'export.pdf': 'ଫଟୋ ସହିତ PDF କେସ୍ ଫାଇଲ୍ ({max} ପର୍ଯ୍ୟନ୍ତ)',
+  'export.empty': 'ରପ୍ତାନି ପାଇଁ କୌଣସି ରିପୋର୍ଟ ନାହିଁ।',
+  'export.failed': 'ରପ୍ତାନି ହୋଇପାରିଲା ନାହିଁ',
+  'export.cappedTitle': 'କେସ୍ ଫାଇଲ୍ ଛୋଟ କରାଗଲା',
+  'export.cappedBody': 'PDF ରେ {total} ମଧ୍ୟରୁ ପ୍ରଥମ {count} ଟି ରିପୋର୍ଟ ଅଛି। ସବୁ ପାଇଁ CSV କିମ୍ବା GeoJSON ରେ ରପ୍ତାନି କରନ୍ତୁ।',
+
+  'reviewed.confirmed': '✔️ ଉଲ୍ଲଂଘନ ନିଶ୍ଚିତ ହେଲା',
+  'reviewed.dismissed': '✅ ସମୀକ୍ଷାରେ ଖାରଜ',
+  'reviewed.escalated': '⬆️ ଉପରକୁ ପଠାଗଲା',
+  'reviewed.automated': 'ସ୍ୱୟଂଚାଳିତ ଫଳାଫଳ: {status}',
+
+  'review.loading': 'ସମୀକ୍ଷା ତାଲିକା ଲୋଡ୍ ହେଉଛି...',
+  'review.empty': 'ସମୀକ୍ଷା ପାଇଁ କିଛି ବାକି ନାହିଁ।',
+  'review.emptyEscalated': 'ଆଗକୁ ପଠାଯାଇଥିବା କୌଣସି ରିପୋର୍ଟ ନାହିଁ।',
+  'review.queue.new': 'ସମୀକ୍ଷା ପାଇଁ',
+  'review.queue.escalated': 'ଆଗକୁ ପଠାଯାଇଥିବା',
+  'review.notAllowed': 'କେବଳ ସମୀକ୍ଷକମାନେ ଏହି ସ୍କ୍ରିନ୍ ଖୋଲିପାରିବେ।',
+  'review.confirm': 'ନିଶ୍ଚିତ କରନ୍ତୁ',
+  'review.dismiss': 'ଖାରଜ କରନ୍ତୁ',
+  'review.escalate': 'ଉପରକୁ ପଠାନ୍ତୁ',
+  'review.reasonPlaceholder': 'ଏହି ନିଷ୍ପତ୍ତିର କାରଣ (ଆବଶ୍ୟକ)',
+  'review.reasonTooShort': 'ଅତି କମରେ {min} ଅକ୍ଷରର କାରଣ ଲେଖନ୍ତୁ।',
+  'review.save': 'ନିଷ୍ପତ୍ତି ସେଭ୍ କରନ୍ତୁ',
+  'review.failed': 'ସମୀକ୍ଷା ସେଭ୍ ହୋଇପାରିଲା ନାହିଁ',
+  'review.open': 'ରିପୋର୍ଟ ଖୋଲନ୍ତୁ',
+
+  'notify.title': 'ରିପୋର୍ଟ ଅପଡେଟ୍',
+  'notify.bodyAt': '{status} · {address}',
+  'notify.onTitle': '🔔 ବିଜ୍ଞପ୍ତି ଚାଲୁ',
+  'notify.onBody': 'ଆପଣଙ୍କ କୌଣସି ରିପୋର୍ଟର ଚୂଡ଼ାନ୍ତ ଫଳାଫଳ ଆସିଲେ ଆପଣଙ୍କୁ ଜଣାଯିବ।',
+  'notify.offTitle': '🔕 ବିଜ୍ଞପ୍ତି ବନ୍ଦ',
+  'notify.offBody': 'ଏହି ଡିଭାଇସରେ ଆପଣଙ୍କ ରିପୋର୍ଟ ବିଷୟରେ ଆପଣଙ୍କୁ ଜଣାଯିବ ନାହିଁ।',
+
+  'filters.search': 'ଠିକଣା ଖୋଜନ୍ତୁ',
+  'filters.pending': '⏳ ବାକି',
+  'filters.violation': '🚫 ଉଲ୍ଲଂଘନ',
+  'filters.success': '✅ ଠିକ',
+  'filters.error': '⛔ ତ୍ରୁଟି',
+  'filters.hasQr': '🔳 QR ଥିବା',
+  'filters.newest': 'ନୂଆ ପ୍ରଥମେ',
+  'filters.oldest': 'ପୁରୁଣା ପ୍ରଥମେ',
+  'filters.nearest': 'ମୋ ନିକଟତମ',
+  'filters.from': 'ଠାରୁ: {date}',
+  'filters.to': 'ପର୍ଯ୍ୟନ୍ତ: {date}',
+  'filters.any': 'ଯେକୌଣସି',
+  'filters.clear': 'ସଫା କରନ୍ତୁ',
+
+  'detail.loading': 'ରିପୋର୍ଟ ଲୋଡ ହେଉଛି...',
+  'detail.notFound': 'ରିପୋର୍ଟ ମିଳିଲା ନାହିଁ।',
+  'detail.loadFailed': 'ଏହି ରିପୋର୍ଟ ଲୋଡ ହୋଇପାରିଲା ନାହିଁ।',
+  'detail.cached': 'ଅଫଲାଇନ୍। ଏହା ସେଭ୍ ହୋଇଥିବା କପି; ପୁଣି ଚେଷ୍ଟା କରିବାକୁ ଟାପ୍ କରନ୍ତୁ।',
+  'detail.noPhoto': '📷 କୌଣସି ଫଟୋ ନାହିଁ',
+  'detail.analysis': 'ବିଶ୍ଳେଷଣ',
+  'detail.noFindings': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଫଳାଫଳ ଲେଖାଯାଇନାହିଁ।',
+  'detail.inspectorNotes': 'ନିରୀକ୍ଷକଙ୍କ ଟିପ୍ପଣୀ',
+  'detail.boxOnPhoto': 'ଫଟୋ {number} ରେ ହୋର୍ଡିଂ ଚିହ୍ନିତ ହୋଇଛି',
+  'detail.evidence': 'ଅଧିକ ପ୍ରମାଣ ({count})',
+  'detail.rules': 'ସମୟ ନିୟମ',
+  'detail.reviews': 'ସମୀକ୍ଷା ଇତିହାସ',
+  'detail.reviewer': 'ସମୀକ୍ଷକ {id}',
+  'detail.location': 'ଲୋକେସନ',
+  'detail.integrity': 'ଫଟୋର ପ୍ରାମାଣିକତା',
+  'detail.weakGps': '⚠️ ଦୁର୍ବଳ GPS ସିଗନାଲ ସହ ପଠାଯାଇଛି',
+  'detail.poorPhoto': '⚠️ ଗୁଣବତ୍ତା ଯାଞ୍ଚରେ ବିଫଳ ଫଟୋ ସହିତ ପଠାଯାଇଛି',
+  'detail.imported': '📁 ଗ୍ୟାଲେରୀରୁ ଅଣାଯାଇଛି',
+  'detail.exifLocation': '📍 ସ୍ଥାନ ଫଟୋରୁ ପଢ଼ାଯାଇଛି, ଲାଇଭ୍ GPS ରୁ ନୁହେଁ',
+  'detail.manualLocation': '📍 ସ୍ଥାନ ରିପୋର୍ଟର ମାନଚିତ୍ରରେ ବାଛିଛନ୍ତି',
+  'detail.unknownTime': '⚠️ ଫଟୋର ସମୟ ଅଜଣା, ତେଣୁ ସମୟ ନିୟମ ଯାଞ୍ଚ କରାଯାଇନାହିଁ',
+  'detail.timeUnknown': 'ଅଜଣା',
+  'detail.accuracy': '🎯 ସଠିକତା {accuracy}',
+  'detail.fixTimes': 'GPS ସମୟ {fix} · ଡିଭାଇସ ସମୟ {device}',
+  'detail.share': 'ସେୟାର କରନ୍ତୁ',
+  'detail.copy': 'କପି କରନ୍ତୁ',
+  'detail.copied': 'କପି ହେଲା',
+  'detail.copiedBody': 'ରିପୋର୍ଟ ବିବରଣୀ କ୍ଲିପବୋର୍ଡରେ କପି ହେଲା',
+};
+
+export default or;
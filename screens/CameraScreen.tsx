@@ -1,52 +1,207 @@
 import React, { useEffect, useRef, useState } from "react";
 import {
   ActivityIndicator,
+  Alert,
   Dimensions,
   Image,
   Modal,
+  ScrollView,
   StyleSheet,
-  Text,
   TouchableOpacity,
   View,
 } from "react-native";
 import { Camera, CameraType } from "expo-camera";
+import * as FileSystem from "expo-file-system";
 import * as Location from "expo-location";
 import { useIsFocused } from "@react-navigation/native";
-import * as FileSystem from "expo-file-system";
-import { decode as atob } from "base-64";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { Ionicons } from "@expo/vector-icons"; // Import Ionicons
+import { GestureHandlerRootView } from "react-native-gesture-handler";
 
-import API_BASE_URL from "../utils/api";
+import { AnnotationEditor } from "../components/AnnotationEditor";
+import { FramingOverlay } from "../components/FramingOverlay";
+import { LocationPicker } from "../components/LocationPicker";
+import { Text, useThemeColors } from "../components/Themed";
+import type { StatusTone } from "../constants/Colors";
+import { Annotations, EMPTY_ANNOTATIONS, withoutPhoto } from "../utils/annotations";
+import {
+  assessPhoto,
+  loadGuidedMode,
+  PhotoQuality,
+  QualityIssue,
+  saveGuidedMode,
+  useDeviceTilt,
+} from "../utils/captureQuality";
+import {
+  DuplicateMatch,
+  DuplicateProbe,
+  fetchDuplicateCandidates,
+  findDuplicates,
+  perceptualHash,
+} from "../utils/duplicates";
+import { ImportedPhoto, importedFix, pickFromGallery } from "../utils/gallery";
+import { checkGeofence, loadZones } from "../utils/geofence";
+import {
+  CaptureFlag,
+  CaptureInfo,
+  checkLocationFix,
+  hashPhotos,
+  LocationFix,
+  MAX_ACCURACY_M,
+  readLocationFix,
+} from "../utils/integrity";
+import { checkLicenseQr, LicenseCheck } from "../utils/license";
+import { abortError } from "../utils/http";
+import { formatDate, formatDateTime, t, useLocale } from "../utils/i18n";
+import { abortable, Stage, STAGES, throwIfAborted } from "../utils/pipeline";
+import { enqueueReport } from "../utils/outbox";
+import { markSubmitted, unmarkSubmitted } from "../utils/notifications";
+import {
+  classifyAnalyzeResponse,
+  classifyReport,
+  otherReasons,
+  reasonText,
+  ReportResult,
+  resultHint,
+  statusTone,
+} from "../utils/reportResult";
+import { attachEvidence, compressPhoto, Coords, ReportDraft, submitReport } from "../utils/reports";
+import {
+  evaluateRules,
+  loadRules,
+  RuleVerdict,
+  ruleViolations,
+  TIME_VIOLATION_REASON,
+} from "../utils/rules";
 import { supabase } from "../utils/supabase";
 
-type Coords = { latitude: number; longitude: number };
-
-// -------------------- Geofence CONFIG --------------------
-const GEOFENCE_CENTER = { lat: 20.2961, lon: 85.8245 }; // Approximate: Bhubaneswar, Odisha
-const GEOFENCE_RADIUS_M = 1500; // meters
-
-// -------------------- Helpers: distance checks --------------------
-function haversineMeters(a: { lat: number; lon: number }, b: { lat: number; lon: number }) {
-  const R = 6371000;
-  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
-  const dLon = ((b.lon - a.lon) * Math.PI) / 180;
-  const lat1 = (a.lat * Math.PI) / 180;
-  const lat2 = (b.lat * Math.PI) / 180;
-  const sinDLat = Math.sin(dLat / 2),
-    sinDLon = Math.sin(dLon / 2);
-  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
-  return 2 * R * Math.asin(Math.sqrt(h));
+// Wide shot, close-up of the license/QR, the structure's base... and a couple spare.
+const MAX_SHOTS = 5;
+
+const LICENSE_TONES: Record<LicenseCheck["status"], StatusTone> = {
+  valid: "success",
+  expired: "violation",
+  forged: "violation",
+  malformed: "warning",
+  unrecognized: "pending",
+};
+
+// A flagged license is a violation on its own, whatever the backend finds later.
+function licenseViolation(check: LicenseCheck | null) {
+  if (check?.status === "expired") return `License expired on ${check.license.expiresOn}`;
+  if (check?.status === "forged") return "License QR signature is invalid";
+  return null;
+}
+
+type Shot = {
+  uri: string;
+  takenAt: string | null; // null: imported without an EXIF time
+  exif: Record<string, unknown> | null;
+  quality: PhotoQuality | null; // null outside guided mode or when the check failed
+};
+
+// Where an imported bundle was taken; stands in for the live fix on submit.
+type ImportInfo = { fix: LocationFix; origin: "exif" | "pin" };
+
+function importedShot(photo: ImportedPhoto): Shot {
+  return {
+    uri: photo.uri,
+    takenAt: photo.takenAt,
+    exif: photo.exif,
+    quality: null,
+  };
+}
+
+function confirmAsync(title: string, message: string, confirmLabel: string) {
+  return new Promise<boolean>((resolve) =>
+    Alert.alert(
+      title,
+      message,
+      [
+        { text: t("common.cancel"), style: "cancel", onPress: () => resolve(false) },
+        { text: confirmLabel, style: "destructive", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    )
+  );
+}
+
+// Resolves true when the user wants to retake a photo the quality check flagged.
+function askRetakeAsync(issues: QualityIssue[]) {
+  return new Promise<boolean>((resolve) =>
+    Alert.alert(
+      t("quality.title"),
+      t("quality.body", { issues: issues.map((i) => t(`quality.${i}`)).join(", ") }),
+      [
+        { text: t("quality.keep"), onPress: () => resolve(false) },
+        { text: t("quality.retake"), style: "cancel", onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(true) }
+    )
+  );
+}
+
+// Offline or failing lookups never hold a report back.
+async function lookForDuplicate(probe: DuplicateProbe, signal: AbortSignal) {
+  try {
+    const rows = await abortable(fetchDuplicateCandidates(probe, { signal }), signal);
+    return findDuplicates(probe, rows)[0] ?? null;
+  } catch (err: any) {
+    if (err?.name === "AbortError" || signal.aborted) throw abortError();
+    console.warn("⚠️ Duplicate check failed:", err);
+    return null;
+  }
 }
 
-function checkGeofence(user: { latitude: number; longitude: number }) {
-  const dist = haversineMeters(
-    { lat: user.latitude, lon: user.longitude },
-    { lat: GEOFENCE_CENTER.lat, lon: GEOFENCE_CENTER.lon }
+function askDuplicateAsync(match: DuplicateMatch) {
+  const reasons = match.reasons
+    .map((r) => t(`duplicate.${r}`, { distance: Math.round(match.distanceM ?? 0) }))
+    .join(", ");
+  return new Promise<"attach" | "new" | "cancel">((resolve) =>
+    Alert.alert(
+      t("duplicate.title"),
+      t("duplicate.body", { date: formatDateTime(match.report.created_at), reasons }),
+      [
+        { text: t("common.cancel"), style: "cancel", onPress: () => resolve("cancel") },
+        { text: t("duplicate.fileNew"), onPress: () => resolve("new") },
+        { text: t("duplicate.attach"), onPress: () => resolve("attach") },
+      ],
+      { cancelable: true, onDismiss: () => resolve("cancel") }
+    )
   );
-  return dist <= GEOFENCE_RADIUS_M
-    ? { ok: true as const }
-    : { ok: false as const, reason: "Out of allowed zone" };
+}
+
+type ResultData = {
+  result: ReportResult;
+  attachedTo?: string; // existing report the photos were added to
+  user_id?: string | null;
+  photoUri?: string;
+  photoCount?: number;
+  address?: string;
+  supabaseUrl?: string | null;
+  lat?: number;
+  lon?: number;
+  accuracyM?: number | null;
+  flags?: CaptureFlag[];
+  ruleVerdicts?: RuleVerdict[];
+};
+
+function resultTitle(result: ReportResult) {
+  switch (result.kind) {
+    case "license-ok":
+    case "success":
+      return t("result.noIssues");
+    case "no-billboard":
+      return t("result.invalidImage");
+    case "queued":
+      return t("result.queued");
+    case "pending":
+      return t("result.pending");
+    case "error":
+      return t("result.error");
+    default:
+      return t("result.violation");
+  }
 }
 
 export default function CameraScreen() {
@@ -56,35 +211,78 @@ export default function CameraScreen() {
   const cameraRef = useRef<Camera | null>(null);
   const isFocused = useIsFocused();
   const insets = useSafeAreaInsets();
+  const colors = useThemeColors();
+  useLocale();
 
   // -------------------- State Flags --------------------
+  const [isCapturing, setIsCapturing] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [abortController, setAbortController] = useState<AbortController | null>(null);
+  const [uploadProgress, setUploadProgress] = useState(0);
+  const [stage, setStage] = useState<Stage | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+
+  // -------------------- Photo Bundle --------------------
+  const [shots, setShots] = useState<Shot[]>([]);
+
+  // -------------------- Gallery Import --------------------
+  const [importInfo, setImportInfo] = useState<ImportInfo | null>(null);
+  const [pinPending, setPinPending] = useState<ImportedPhoto[] | null>(null); // waiting for a pin
+
+  // An emptied bundle goes back to being a live capture.
+  useEffect(() => {
+    if (shots.length === 0) setImportInfo(null);
+  }, [shots.length]);
+
+  // -------------------- Review Step --------------------
+  const [reviewVisible, setReviewVisible] = useState(false);
+  const [annotations, setAnnotations] = useState<Annotations>(EMPTY_ANNOTATIONS);
 
   // -------------------- Result Modal --------------------
   const [resultModalVisible, setResultModalVisible] = useState(false);
-  const [resultData, setResultData] = useState<any>(null);
+  const [resultData, setResultData] = useState<ResultData | null>(null);
+
+  // -------------------- Guided Capture --------------------
+  const [guided, setGuided] = useState(true);
+  const { tilt, latest: latestTilt } = useDeviceTilt(guided && isFocused);
+
+  const toggleGuided = () => {
+    const next = !guided;
+    setGuided(next);
+    saveGuidedMode(next).catch((err) => console.warn("⚠️ Could not save guided capture setting:", err));
+  };
 
   // -------------------- QR Scanner --------------------
   const [scanEnabled, setScanEnabled] = useState(true);
   const [qrValue, setQrValue] = useState<string | null>(null);
+  const [licenseCheck, setLicenseCheck] = useState<LicenseCheck | null>(null);
   const [scanModalVisible, setScanModalVisible] = useState(false);
 
   const onBarCodeScanned = ({ data }: { data: string }) => {
-    if (!scanEnabled) return;
+    // A QR in front of the camera says nothing about imported photos.
+    if (!scanEnabled || importInfo || pinPending) return;
 
+    const check = checkLicenseQr(data);
     setScanEnabled(false); // Disable further scans
     setQrValue(data);
+    setLicenseCheck(check);
     setScanModalVisible(true);
 
-    // Re-enable scanning after 3 seconds and hide the popup
+    // Re-enable scanning and hide the popup; decoded licenses stay up longer so
+    // they can be read before capturing.
     setTimeout(() => {
       setScanModalVisible(false);
       setScanEnabled(true);
-    }, 3000);
+    }, check.status === "unrecognized" ? 3000 : 6000);
   };
 
   // -------------------- Ask Permissions on Mount --------------------
+  useEffect(() => {
+    loadZones();
+    loadRules();
+    loadGuidedMode().then(setGuided);
+  }, []);
+
   useEffect(() => {
     (async () => {
       const { status: camStatus } = await Camera.requestCameraPermissionsAsync();
@@ -98,205 +296,384 @@ export default function CameraScreen() {
     })();
   }, []);
 
-  // -------------------- Upload + Insert to Supabase --------------------
-  async function uploadToSupabase(
-    photoUri: string,
-    coords: Coords,
-    address: string,
-    opts?: { status?: string; message?: string; userId?: string | null }
-  ): Promise<{ url: string | null; id: string | null }> {
-    const status = opts?.status ?? "pending";
-    const message = opts?.message ?? null;
-    const userId = opts?.userId ?? null;
+  // -------------------- Capture + Flow --------------------
+  // Each capture is added to the bundle; nothing is sent until the user submits.
+  const takePicture = async () => {
+    if (isCapturing || isUploading || !cameraRef.current || !isCameraReady) return;
+    if (shots.length >= MAX_SHOTS) return;
 
+    setIsCapturing(true);
     try {
-      const fileExt = "jpg";
-      const fileName = `${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
-      const filePath = `reports/${fileName}`;
+      const takenAt = new Date().toISOString();
+      const tiltAtShot = guided ? latestTilt.current : null;
+      // EXIF is read here: re-encoding in compressPhoto drops it from the file.
+      const captured = await cameraRef.current.takePictureAsync({ quality: 1, exif: true });
+      const uri = await compressPhoto(captured.uri, { width: captured.width, height: captured.height });
+      console.log("✅ Captured:", uri);
 
-      const base64 = await FileSystem.readAsStringAsync(photoUri, {
-        encoding: FileSystem.EncodingType.Base64,
-      });
-      const buffer = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+      // Guided mode: catch a blurry, dark or crooked shot before it is uploaded.
+      const quality = guided ? await assessPhoto(uri, tiltAtShot) : null;
+      if (quality && quality.issues.length > 0 && (await askRetakeAsync(quality.issues))) {
+        FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+        return;
+      }
+      setShots((prev) => [...prev, { uri, takenAt, exif: captured.exif ?? null, quality }]);
+    } catch (err) {
+      console.error("❌ Error in takePicture:", err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
 
-      const { error: storageError } = await supabase.storage
-        .from("reports")
-        .upload(filePath, buffer, { contentType: "image/jpeg" });
+  // Gallery photos replace the live capture for this report. The first photo
+  // with GPS in its EXIF locates the bundle; without any the user drops a pin.
+  const importPhotos = async () => {
+    if (isCapturing || isUploading || shots.length > 0) return;
 
-      if (storageError) throw storageError;
+    setIsCapturing(true);
+    try {
+      const photos = await pickFromGallery(MAX_SHOTS);
+      if (photos.length === 0) return;
+      setQrValue(null); // a QR scanned live says nothing about these photos
+      setLicenseCheck(null);
+      setAnnotations(EMPTY_ANNOTATIONS);
 
-      const { data: publicUrlData } = supabase.storage.from("reports").getPublicUrl(filePath);
-      const publicUrl = publicUrlData.publicUrl;
+      const located = photos.find((p) => p.coords);
+      if (!located?.coords) {
+        setPinPending(photos);
+        return;
+      }
+      setImportInfo({
+        fix: importedFix(located.coords, { exif: located.exif, takenAt: located.takenAt }),
+        origin: "exif",
+      });
+      setShots(photos.map(importedShot));
+    } catch (err) {
+      console.error("❌ Error in importPhotos:", err);
+    } finally {
+      setIsCapturing(false);
+    }
+  };
 
-      const { data: insertData, error } = await supabase
-        .from("reports")
-        .insert([
-          {
-            user_id: userId,
-            image_url: publicUrl,
-            lat: coords.latitude,
-            lon: coords.longitude,
-            address,
-            status,
-            message,
-          },
-        ])
-        .select("id")
-        .single();
+  const confirmPin = (coords: Coords) => {
+    if (!pinPending) return;
+    setImportInfo({
+      fix: importedFix(coords, { takenAt: pinPending[0].takenAt }),
+      origin: "pin",
+    });
+    setShots(pinPending.map(importedShot));
+    setPinPending(null);
+  };
 
-      if (error) throw error;
+  const cancelPin = () => {
+    pinPending?.forEach((p) => FileSystem.deleteAsync(p.uri, { idempotent: true }).catch(() => {}));
+    setPinPending(null);
+  };
 
-      console.log("✅ Uploaded & inserted:", publicUrl, insertData?.id);
-      return { url: publicUrl, id: insertData?.id ?? null };
-    } catch (err) {
-      console.error("❌ Supabase upload/insert failed:", err);
-      return { url: null, id: null };
+  const removeShot = (uri: string) => {
+    const index = shots.findIndex((s) => s.uri === uri);
+    if (index < 0) return;
+    setShots(shots.filter((s) => s.uri !== uri));
+    setAnnotations((prev) => withoutPhoto(prev, index));
+  };
+
+  // The inspector gets to mark up the photos before anything is sent.
+  const openReview = () => {
+    if (shots.length === 0) return;
+    if (licenseCheck?.status === "expired" && !annotations.categories.includes("expired-license")) {
+      setAnnotations({ ...annotations, categories: [...annotations.categories, "expired-license"] });
     }
-  }
+    setReviewVisible(true);
+  };
 
-  // -------------------- Capture + Flow --------------------
-  const takePicture = async () => {
-    if (isUploading || !cameraRef.current || !isCameraReady) return;
+  const sendReviewed = () => {
+    setReviewVisible(false);
+    submitShots();
+  };
+
+  const submitShots = async () => {
+    if (isUploading || shots.length === 0) return;
 
     setIsUploading(true);
+    setUploadProgress(0);
+    const photoUris = shots.map((s) => s.uri);
+    // Refused or cancelled submissions keep the bundle and scanned QR for a retry.
+    let keepBundle = false;
+
+    const controller = new AbortController();
+    const { signal } = controller;
+    setAbortController(controller);
 
     try {
-      const photo = await cameraRef.current.takePictureAsync({ quality: 0.7 });
-      console.log("✅ Captured:", photo.uri);
+      setStage("capture");
+      const [sha256, phash] = await abortable(
+        Promise.all([hashPhotos(photoUris), Promise.all(photoUris.map(perceptualHash))]),
+        signal
+      );
 
-      let coords: Coords = { latitude: 0, longitude: 0 };
-      try {
-        const loc = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low });
-        coords = { latitude: loc.coords.latitude, longitude: loc.coords.longitude };
-      } catch (locErr) {
-        console.warn("⚠️ Location fetch failed:", locErr);
+      setStage("locate");
+      const flags: CaptureFlag[] = [];
+      let fix: LocationFix | null;
+      if (importInfo) {
+        // Where the photos were taken, not where the phone is now.
+        fix = importInfo.fix;
+        flags.push(importInfo.origin === "exif" ? "exif-location" : "manual-location");
+      } else {
+        fix = await abortable(readLocationFix(), signal);
+        if (!fix) {
+          keepBundle = true;
+          Alert.alert(t("camera.noFixTitle"), t("camera.noFixBody"));
+          return;
+        }
+        const fixCheck = checkLocationFix(fix);
+        if (!fixCheck.ok && fixCheck.reason === "mocked") {
+          keepBundle = true;
+          Alert.alert(t("camera.mockTitle"), t("camera.mockBody"));
+          return;
+        }
+        if (!fixCheck.ok) {
+          const sendAnyway = await confirmAsync(
+            t("camera.weakTitle"),
+            t("camera.weakBody", {
+              accuracy:
+                fix.accuracyM == null ? t("camera.accuracyUnknown") : `±${Math.round(fix.accuracyM)} m`,
+              max: MAX_ACCURACY_M,
+            }),
+            t("camera.sendFlagged")
+          );
+          if (!sendAnyway) {
+            keepBundle = true;
+            return;
+          }
+          throwIfAborted(signal);
+          flags.push("low-accuracy");
+        }
       }
+      const source = importInfo ? "imported" : "camera";
+      if (shots.some((s) => s.quality && s.quality.issues.length > 0)) flags.push("poor-photo");
+      if (shots.some((s) => !s.takenAt)) flags.push("unknown-time");
+      const coords = { latitude: fix.latitude, longitude: fix.longitude };
 
+      const capture: CaptureInfo = {
+        fix,
+        deviceTime: new Date().toISOString(),
+        takenAt: shots.map((s) => s.takenAt),
+        sha256,
+        phash,
+        exif: shots.map((s) => s.exif),
+        quality: shots.map((s) => s.quality),
+        flags,
+      };
+
+      setStage("geocode");
       let address = "Unknown location";
       try {
-        const places = await Location.reverseGeocodeAsync(coords);
+        const places = await abortable(Location.reverseGeocodeAsync(coords), signal);
         if (places.length > 0) {
           const p = places[0];
           address = `${p.street || ""}, ${p.city || ""}, ${p.region || ""}, ${p.country || ""}`;
         }
-      } catch (geoErr) {
+      } catch (geoErr: any) {
+        if (geoErr?.name === "AbortError") throw geoErr;
         console.warn("⚠️ Reverse geocoding failed:", geoErr);
       }
 
       const geo = checkGeofence(coords);
+      // Time rules need to know when the photo was taken; an import without an
+      // EXIF time is flagged instead of judged against the clock at import.
+      const shotAt = shots[0].takenAt;
+      const ruleVerdicts = shotAt
+        ? evaluateRules({
+            at: new Date(shotAt),
+            zoneId: geo.zoneId,
+            hoardingType: annotations.hoardingType ?? null,
+          })
+        : [];
+      const timeIssue = ruleViolations(ruleVerdicts).length > 0 ? TIME_VIOLATION_REASON : null;
+      const licenseIssue = licenseViolation(licenseCheck);
+      const reasons = [!geo.ok ? geo.reason : null, timeIssue, licenseIssue].filter(Boolean);
       const preliminary =
-        !geo.ok ? { status: "violation", message: "Out of allowed zone" }
+        reasons.length > 0 ? { status: "violation", message: reasons.join("; ") as string | null }
           : { status: "pending", message: null as string | null };
 
-      const { data: userResp } = await supabase.auth.getUser();
+      const { data: userResp } = await abortable(supabase.auth.getUser(), signal);
       const userId = userResp?.user?.id ?? null;
 
-      const up = await uploadToSupabase(photo.uri, coords, address, {
+      const draft: ReportDraft = {
+        photoUris,
+        coords,
+        address,
         status: preliminary.status,
-        message: preliminary.message ?? undefined,
+        message: preliminary.message,
         userId,
-      });
-      const supabaseUrl = up.url;
-      const reportId = up.id;
+        zoneId: geo.zoneId,
+        qrValue,
+        annotations,
+        capture,
+        ruleVerdicts,
+        source,
+      };
+      const summary = {
+        user_id: userId,
+        photoUri: photoUris[0],
+        photoCount: photoUris.length,
+        address,
+        lat: coords.latitude,
+        lon: coords.longitude,
+        accuracyM: fix.accuracyM,
+        flags,
+        ruleVerdicts,
+      };
 
-      const controller = new AbortController();
-      setAbortController(controller);
+      // Same hoarding already on file: the user may add their photos to it.
+      setStage("dedupe");
+      const duplicate = await lookForDuplicate({ coords, qrValue, phash }, signal);
+      const choice = duplicate ? await askDuplicateAsync(duplicate) : "new";
+      throwIfAborted(signal);
+      if (choice === "cancel") {
+        keepBundle = true;
+        return;
+      }
+      if (duplicate && choice === "attach") {
+        const evidence = await attachEvidence(duplicate.report.id, draft, {
+          onStage: (next) => {
+            setStage(next);
+            setUploadProgress(0);
+          },
+          onProgress: setUploadProgress,
+          signal,
+        });
+        if (!evidence) {
+          keepBundle = true;
+          setResultData({ result: classifyReport("error", "Upload failed") });
+          setResultModalVisible(true);
+          return;
+        }
+        setResultData({
+          ...summary,
+          result: classifyReport(duplicate.report.status, duplicate.report.message),
+          attachedTo: duplicate.report.id,
+          supabaseUrl: evidence.image_urls[0] ?? null,
+        });
+        setResultModalVisible(true);
+        setShots([]);
+        setAnnotations(EMPTY_ANNOTATIONS);
+        return;
+      }
 
-      const formData = new FormData();
-      formData.append("image_url", supabaseUrl ?? "");
-      formData.append("lat", coords.latitude.toString());
-      formData.append("lon", coords.longitude.toString());
-      formData.append("qr_value", qrValue ?? "");
-      if (reportId) formData.append("report_id", reportId);
+      const { url: supabaseUrl, id: reportId, analysis: data } = await submitReport(
+        draft,
+        {
+          onStage: (next) => {
+            setStage(next);
+            setUploadProgress(0);
+          },
+          onProgress: setUploadProgress,
+          onInserted: markSubmitted,
+          signal,
+        }
+      );
+      // No result to show here: the notification is the reporter's news.
+      if (reportId && !data) unmarkSubmitted(reportId);
 
-      let data: any = null;
-      try {
-        const res = await fetch(`${API_BASE_URL}/analyze`, {
-          method: "POST",
-          body: formData,
-          headers: { "Content-Type": "multipart/form-data" },
-          signal: controller.signal,
-        });
-        data = await res.json();
-        console.log("✅ Backend response:", data);
-      } catch (e) {
-        console.warn("⚠️ Backend analyze call failed:", e);
+      // Either call failed: park the capture in the outbox instead of losing it.
+      let queued = false;
+      if (!supabaseUrl || !data) {
+        try {
+          await enqueueReport({
+            photoUris,
+            coords,
+            address,
+            qrValue,
+            userId,
+            zoneId: geo.zoneId,
+            annotations,
+            capture,
+            ruleVerdicts,
+            source,
+            status: preliminary.status,
+            message: preliminary.message,
+            imageUrl: supabaseUrl,
+            reportId,
+          });
+          queued = true;
+        } catch (queueErr) {
+          console.error("❌ Could not queue report:", queueErr);
+        }
       }
 
-      const serverStatus = data?.status as string | undefined;
-      const serverMessage = data?.message as string | undefined;
-
-      let finalStatus: string;
-      let finalMessage: string;
-      
-      if (serverMessage?.includes('✅ QR Found Correctly') && !serverMessage.includes('No billboard detected')) {
-          finalStatus = 'success';
-          finalMessage = serverMessage;
-      } else if (serverStatus) {
-        finalStatus = serverStatus;
-        finalMessage =
-          serverMessage ??
-          (serverStatus === "success" ? "Report stored in Supabase" : "Policy violation detected");
+      // The backend's verdict when it gave one, read through the same classifier
+      // as every other screen; otherwise what the app knows itself.
+      let result: ReportResult;
+      if (data?.status) {
+        result = classifyAnalyzeResponse({
+          status: data.status,
+          message:
+            data.message ??
+            (data.status === "success" ? "Report stored in Supabase" : "Policy violation detected"),
+        });
+      } else if (queued) {
+        result = classifyReport("queued", "Saved on device, waiting to sync");
+      } else if (preliminary.status === "violation") {
+        result = classifyReport("violation", preliminary.message ?? "Policy violation detected");
+      } else if (supabaseUrl) {
+        result = classifyReport("success", "Report stored in Supabase");
       } else {
-        if (preliminary.status === "violation") {
-          finalStatus = "violation";
-          finalMessage = preliminary.message ?? "Policy violation detected";
-        } else if (supabaseUrl) {
-          finalStatus = "success";
-          finalMessage = "Report stored in Supabase";
-        } else {
-          finalStatus = "error";
-          finalMessage = "Upload failed";
-        }
+        result = classifyReport("error", "Upload failed");
       }
 
       setResultData({
-        status: finalStatus,
-        message: finalMessage,
-        user_id: userId,
-        photoUri: photo.uri,
-        address,
+        ...summary,
+        result,
         supabaseUrl,
-        lat: coords.latitude,
-        lon: coords.longitude,
       });
       setResultModalVisible(true);
+      setShots([]);
+      setAnnotations(EMPTY_ANNOTATIONS);
     } catch (err: any) {
       if (err?.name === "AbortError") {
-        console.log("❌ Upload aborted by user");
+        keepBundle = true;
+        console.log("❌ Submission cancelled by user");
       } else {
-        console.error("❌ Error in takePicture:", err);
+        console.error("❌ Error in submitShots:", err);
         setResultData({
-          status: "error",
-          message: "Could not capture or send photo",
+          result: classifyReport("error", "Could not capture or send photo"),
         });
         setResultModalVisible(true);
       }
     } finally {
       setAbortController(null);
       setIsUploading(false);
-      setQrValue(null); // Reset QR value after a report
+      setStage(null);
+      setCancelling(false);
+      if (!keepBundle) {
+        setQrValue(null); // Reset QR value after a report
+        setLicenseCheck(null);
+      }
     }
   };
 
   // -------------------- Cancel Upload --------------------
+  // The overlay stays up until submitReport has removed whatever was already
+  // uploaded or inserted.
   const cancelUpload = () => {
-    if (abortController) abortController.abort();
-    setIsUploading(false);
+    if (!abortController || cancelling) return;
+    setCancelling(true);
+    abortController.abort();
   };
 
   // -------------------- Permission Checks --------------------
   if (hasPermission === null)
     return (
-      <View style={styles.center}>
-        <ActivityIndicator size="large" color="#666" />
-        <Text>Requesting permissions...</Text>
+      <View style={[styles.center, { backgroundColor: colors.background }]}>
+        <ActivityIndicator size="large" color={colors.textMuted} />
+        <Text>{t("camera.requestingPermissions")}</Text>
       </View>
     );
   if (hasPermission === false)
     return (
-      <View style={styles.center}>
-        <Text>No access to camera or location</Text>
+      <View style={[styles.center, { backgroundColor: colors.background }]}>
+        <Text>{t("camera.noAccess")}</Text>
       </View>
     );
 
@@ -310,33 +687,121 @@ export default function CameraScreen() {
           type={CameraType.back}
           ratio={"16:9"}
           onCameraReady={() => setIsCameraReady(true)}
-          onBarCodeScanned={scanEnabled ? onBarCodeScanned : undefined}
+          onBarCodeScanned={scanEnabled && !importInfo && !pinPending ? onBarCodeScanned : undefined}
           barCodeScannerSettings={{
             barCodeTypes: ["qr"],
           }}
         >
-          {/* Capture button */}
+          {guided && !importInfo && shots.length < MAX_SHOTS && (
+            <FramingOverlay qrSeen={!!qrValue} tilt={tilt} top={56} />
+          )}
+
+          <TouchableOpacity
+            style={[styles.guideToggle, guided && { backgroundColor: colors.primary }]}
+            onPress={toggleGuided}
+          >
+            <Ionicons name="scan-outline" size={16} color="white" />
+            <Text style={styles.guideToggleText}>{t("guide.toggle")}</Text>
+          </TouchableOpacity>
+
+          {/* Photos collected for this report */}
+          {shots.length > 0 && (
+            <View style={[styles.shotStrip, { bottom: insets.bottom + 90 }]}>
+              {shots.map(({ uri }) => (
+                <View key={uri}>
+                  <Image source={{ uri }} style={styles.shot} />
+                  <TouchableOpacity
+                    style={styles.shotRemove}
+                    onPress={() => removeShot(uri)}
+                    disabled={isUploading}
+                    hitSlop={6}
+                  >
+                    <Ionicons name="close" size={12} color="white" />
+                  </TouchableOpacity>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Capture + submit buttons */}
           <View style={[styles.captureContainer, { bottom: insets.bottom + 20 }]}>
-            <TouchableOpacity
-              style={[styles.captureButton, isUploading && { backgroundColor: "#555" }]}
-              onPress={takePicture}
-              disabled={isUploading}
-            >
-              <Ionicons name="camera" size={28} color="white" />
-              <Text style={styles.captureText}>Capture</Text>
-            </TouchableOpacity>
+            {shots.length === 0 && (
+              <TouchableOpacity
+                style={[styles.captureButton, styles.galleryButton]}
+                onPress={importPhotos}
+                disabled={isUploading || isCapturing}
+                accessibilityLabel={t("import.button")}
+              >
+                <Ionicons name="images-outline" size={24} color="white" />
+              </TouchableOpacity>
+            )}
+            {!importInfo && (
+              <TouchableOpacity
+                style={[
+                  styles.captureButton,
+                  (isUploading || isCapturing || shots.length >= MAX_SHOTS) && {
+                    backgroundColor: colors.secondary,
+                  },
+                ]}
+                onPress={takePicture}
+                disabled={isUploading || isCapturing || shots.length >= MAX_SHOTS}
+              >
+                <Ionicons name="camera" size={28} color="white" />
+                <Text style={styles.captureText}>
+                  {shots.length === 0
+                    ? t("camera.capture")
+                    : t("camera.addShot", { count: shots.length, max: MAX_SHOTS })}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {shots.length > 0 && (
+              <TouchableOpacity
+                style={[styles.captureButton, styles.submitButton, { backgroundColor: colors.primary }]}
+                onPress={openReview}
+                disabled={isUploading || isCapturing}
+              >
+                <Ionicons name="send" size={22} color="white" />
+                <Text style={styles.captureText}>{t("camera.submit")}</Text>
+              </TouchableOpacity>
+            )}
           </View>
         </Camera>
       ) : (
-        <View style={styles.center}>
-          <Text>Camera paused</Text>
+        <View style={[styles.center, { backgroundColor: colors.background }]}>
+          <Text>{t("camera.paused")}</Text>
         </View>
       )}
 
       {/* QR Scanned Popup */}
-      {scanModalVisible && (
-        <View style={styles.qrPopup}>
-          <Text style={styles.qrPopupText}>✅ QR Scanned!</Text>
+      {scanModalVisible && licenseCheck && (
+        <View
+          style={[styles.qrPopup, { backgroundColor: colors[LICENSE_TONES[licenseCheck.status]] }]}
+        >
+          <Text style={styles.qrPopupText}>{t(`license.${licenseCheck.status}`)}</Text>
+          {"license" in licenseCheck && (
+            <>
+              <Text style={styles.qrPopupDetail}>
+                {t("license.number", { number: licenseCheck.license.number })}
+              </Text>
+              {!!licenseCheck.license.agency && (
+                <Text style={styles.qrPopupDetail}>{licenseCheck.license.agency}</Text>
+              )}
+              {licenseCheck.license.size && (
+                <Text style={styles.qrPopupDetail}>
+                  {t("license.size", {
+                    width: licenseCheck.license.size.widthM,
+                    height: licenseCheck.license.size.heightM,
+                  })}
+                </Text>
+              )}
+              <Text style={styles.qrPopupDetail}>
+                {t("license.validUntil", { date: formatDate(licenseCheck.license.expiresOn) })}
+              </Text>
+            </>
+          )}
+          {licenseCheck.status === "malformed" && (
+            <Text style={styles.qrPopupDetail}>{licenseCheck.reason}</Text>
+          )}
         </View>
       )}
 
@@ -344,13 +809,87 @@ export default function CameraScreen() {
       {isUploading && (
         <View style={styles.overlay}>
           <ActivityIndicator size="large" color="#fff" />
-          <Text style={styles.overlayText}>Uploading & Analyzing...</Text>
-          <TouchableOpacity style={styles.cancelButton} onPress={cancelUpload}>
-            <Text style={styles.cancelText}>Cancel</Text>
+          <Text style={styles.overlayText}>
+            {cancelling ? t("camera.cancelling") : stage ? t(`stage.${stage}`) : t("camera.starting")}
+            {!cancelling && (stage === "upload" || stage === "analyze") &&
+              ` ${Math.round(uploadProgress * 100)}%`}
+          </Text>
+          {stage && (
+            <Text style={styles.overlayStep}>
+              {t("camera.step", { step: STAGES.indexOf(stage) + 1, total: STAGES.length })}
+            </Text>
+          )}
+          <View style={styles.stageDots}>
+            {STAGES.map((s, i) => (
+              <View
+                key={s}
+                style={[
+                  styles.stageDot,
+                  stage && i < STAGES.indexOf(stage) && styles.stageDotDone,
+                  s === stage && { backgroundColor: colors.success },
+                ]}
+              />
+            ))}
+          </View>
+          {(stage === "upload" || stage === "analyze") && (
+            <View style={styles.progressTrack}>
+              <View style={[styles.progressFill, { width: `${uploadProgress * 100}%` }]} />
+            </View>
+          )}
+          <TouchableOpacity
+            style={[
+              styles.cancelButton,
+              { backgroundColor: colors.destructive },
+              cancelling && { opacity: 0.5 },
+            ]}
+            onPress={cancelUpload}
+            disabled={cancelling}
+          >
+            <Text style={styles.cancelText}>{t("common.cancel")}</Text>
           </TouchableOpacity>
         </View>
       )}
 
+      <LocationPicker visible={!!pinPending} onConfirm={confirmPin} onCancel={cancelPin} />
+
+      {/* Review Modal */}
+      <Modal
+        visible={reviewVisible}
+        animationType="slide"
+        onRequestClose={() => setReviewVisible(false)}
+      >
+        <GestureHandlerRootView style={[styles.review, { backgroundColor: colors.background }]}>
+          <ScrollView
+            contentContainerStyle={[styles.reviewContent, { paddingTop: insets.top + 12 }]}
+            keyboardShouldPersistTaps="handled"
+          >
+            <Text style={styles.reviewTitle}>{t("camera.reviewTitle")}</Text>
+            <AnnotationEditor photos={shots.map((s) => s.uri)} value={annotations} onChange={setAnnotations} />
+          </ScrollView>
+          <View
+            style={[
+              styles.reviewActions,
+              { paddingBottom: insets.bottom + 12, borderTopColor: colors.border },
+            ]}
+          >
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: colors.secondary }]}
+              onPress={() => setReviewVisible(false)}
+            >
+              <Text style={[styles.closeText, { color: colors.onPrimary }]}>{t("camera.back")}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.closeButton, { backgroundColor: colors.primary }]}
+              onPress={sendReviewed}
+            >
+              <Text style={[styles.closeText, { color: colors.onPrimary }]}>
+                {t("camera.sendReport")}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        </GestureHandlerRootView>
+      </Modal>
+
       {/* Result Modal */}
       <Modal
         visible={resultModalVisible}
@@ -358,72 +897,83 @@ export default function CameraScreen() {
         animationType="slide"
         onRequestClose={() => setResultModalVisible(false)}
       >
-        <View style={styles.modalOverlay}>
-          <View style={styles.modalCard}>
-            {/* UPDATED: Title logic to prioritize QR scan messages */}
-            <Text style={styles.modalTitle}>
-              {resultData?.message?.includes('Invalid QR format')
-                ? "✅ No Issues Detected"
-                : resultData?.message?.includes('No billboard detected')
-                ? "⚠️ Invalid Image"
-                : "🚫 Violation Detected"}
-            </Text>
+        <View style={[styles.modalOverlay, { backgroundColor: colors.backdrop }]}>
+          <View style={[styles.modalCard, { backgroundColor: colors.surface }]}>
+            {resultData && (
+              <View
+                style={[
+                  styles.modalBadge,
+                  { backgroundColor: colors[`${statusTone(resultData.result)}Surface`] },
+                ]}
+              >
+                <Text style={[styles.modalTitle, { color: colors[statusTone(resultData.result)] }]}>
+                  {resultTitle(resultData.result)}
+                </Text>
+              </View>
+            )}
 
             {resultData?.photoUri && (
               <Image source={{ uri: resultData.photoUri }} style={styles.previewImage} />
             )}
-            
-            {/* NEW: Conditional message for license info based on QR scan, now after the image */}
-            {resultData?.message && (
-              <>
-                {resultData.message.includes('Invalid QR format') && (
-                  <Text style={styles.modalText}>✅ License Information Detected</Text>
-                )}
-                {resultData.message.includes('Missing QR') && (
-                  <Text style={styles.modalText}>🚫 No License Information Detected</Text>
-                )}
-              </>
+
+            {resultData?.attachedTo && (
+              <Text style={styles.modalText}>{t("result.attached")}</Text>
             )}
 
-            {resultData?.message && resultData.message
-              .split('; ')
-              .map((msg: string) => msg.trim())
-              .filter((msg: string) => msg !== "Outside allowed time" && msg !== "✅ QR Found Correctly" && msg !== "Missing QR" && msg !== "Invalid QR format" && msg !== "No license information detected." && msg !== "No billboard detected" && msg !== "Out of allowed zone") // ⬅️ NEW: Added "Out of allowed zone" to the filter list
-              .map((msg: string) => (
-                <Text key={msg} style={styles.modalText}>
-                  {msg}
+            {resultData?.result.kind === "license-ok" && (
+              <Text style={styles.modalText}>{t("result.licenseFound")}</Text>
+            )}
+            {resultData?.result.kind === "missing-license" && (
+              <Text style={styles.modalText}>{t("result.licenseMissing")}</Text>
+            )}
+
+            {resultData &&
+              otherReasons(resultData.result).map((reason) => (
+                <Text key={reason.text} style={styles.modalText}>
+                  {reasonText(reason)}
                 </Text>
-            ))}
+              ))}
 
+            {!!resultData?.photoCount && resultData.photoCount > 1 && (
+              <Text style={styles.modalText}>
+                {t("camera.photosAttached", { count: resultData.photoCount })}
+              </Text>
+            )}
 
             {resultData?.user_id && (
-              <Text style={styles.modalText}>User ID: {resultData.user_id}</Text>
+              <Text style={styles.modalText}>{t("camera.userId", { id: resultData.user_id })}</Text>
             )}
 
             {resultData?.lat != null && resultData?.lon != null && (
               <Text style={styles.modalText}>
                 📍 {resultData.lat.toFixed(5)}, {resultData.lon.toFixed(5)}
+                {resultData.accuracyM != null && ` (±${Math.round(resultData.accuracyM)} m)`}
+              </Text>
+            )}
+
+            {ruleViolations(resultData?.ruleVerdicts).map((v) => (
+              <Text key={v.ruleId} style={styles.modalText}>
+                {t("rules.violated", { name: v.ruleName, id: v.ruleId })}
               </Text>
+            ))}
+
+            {resultData?.flags?.includes("low-accuracy") && (
+              <Text style={styles.modalText}>{t("camera.flaggedWeakGps")}</Text>
             )}
 
             {resultData?.address && (
               <Text style={styles.modalText}>🏠 {resultData.address}</Text>
             )}
             
-            {/* NEW: Conditional messages based on heading */}
-            {resultData?.message?.includes('No billboard detected') ? (
-                <Text style={styles.modalText}>☹️ You are supposed to click a Billboard Picture</Text>
-            ) : resultData?.message?.includes('Missing QR') ? (
-                <Text style={styles.modalText}>‼️ Violation Report will be drafted Soon</Text>
-            ) : resultData?.message?.includes('Invalid QR format') ? (
-                <Text style={styles.modalText}>💫 Sorry but there is no issue in the Billboard</Text>
-            ) : null}
+            {resultData && resultHint(resultData.result) && (
+              <Text style={styles.modalText}>{resultHint(resultData.result, { icon: true })}</Text>
+            )}
 
             <TouchableOpacity
-              style={styles.closeButton}
+              style={[styles.closeButton, { backgroundColor: colors.primary }]}
               onPress={() => setResultModalVisible(false)}
             >
-              <Text style={styles.closeText}>Close</Text>
+              <Text style={[styles.closeText, { color: colors.onPrimary }]}>{t("common.close")}</Text>
             </TouchableOpacity>
           </View>
         </View>
@@ -433,6 +983,8 @@ export default function CameraScreen() {
 }
 
 // -------------------- Styles (Merged) --------------------
+// Controls drawn over the viewfinder stay light-on-dark in either scheme; the
+// screens and sheets around it take their colors from the theme.
 const styles = StyleSheet.create({
   container: { flex: 1, backgroundColor: "#000" },
   center: { flex: 1, justifyContent: "center", alignItems: "center" },
@@ -440,6 +992,33 @@ const styles = StyleSheet.create({
   captureContainer: {
     position: "absolute",
     alignSelf: "center",
+    flexDirection: "row",
+  },
+  submitButton: { marginLeft: 10 },
+  galleryButton: { paddingHorizontal: 14, marginRight: 10 },
+  shotStrip: {
+    position: "absolute",
+    alignSelf: "center",
+    flexDirection: "row",
+  },
+  shot: {
+    width: 52,
+    height: 52,
+    borderRadius: 8,
+    marginHorizontal: 4,
+    borderWidth: 1,
+    borderColor: "rgba(255,255,255,0.8)",
+  },
+  shotRemove: {
+    position: "absolute",
+    top: -6,
+    right: -2,
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: "rgba(0,0,0,0.8)",
+    justifyContent: "center",
+    alignItems: "center",
   },
   captureButton: {
     flexDirection: "row",
@@ -466,9 +1045,27 @@ const styles = StyleSheet.create({
     alignItems: "center",
   },
   overlayText: { marginTop: 12, color: "white", fontSize: 18, fontWeight: '500' },
+  overlayStep: { marginTop: 4, color: "rgba(255,255,255,0.7)", fontSize: 13 },
+  stageDots: { flexDirection: "row", marginTop: 10 },
+  stageDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginHorizontal: 4,
+    backgroundColor: "rgba(255,255,255,0.3)",
+  },
+  stageDotDone: { backgroundColor: "rgba(255,255,255,0.8)" },
+  progressTrack: {
+    width: "60%",
+    height: 6,
+    borderRadius: 3,
+    marginTop: 12,
+    backgroundColor: "rgba(255,255,255,0.25)",
+    overflow: "hidden",
+  },
+  progressFill: { height: "100%", backgroundColor: "white" },
   cancelButton: {
     marginTop: 20,
-    backgroundColor: "#FF3B30",
     paddingVertical: 10,
     paddingHorizontal: 20,
     borderRadius: 8,
@@ -477,12 +1074,10 @@ const styles = StyleSheet.create({
 
   modalOverlay: {
     flex: 1,
-    backgroundColor: "rgba(0,0,0,0.6)",
     justifyContent: "center",
     alignItems: "center",
   },
   modalCard: {
-    backgroundColor: "white",
     borderRadius: 16,
     padding: 20,
     width: "85%",
@@ -493,8 +1088,9 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 5,
   },
-  modalTitle: { fontSize: 20, fontWeight: "bold", marginBottom: 15, textAlign: 'center' },
-  modalText: { fontSize: 15, marginBottom: 8, textAlign: "center", color: '#333' },
+  modalBadge: { borderRadius: 12, paddingVertical: 8, paddingHorizontal: 14, marginBottom: 10 },
+  modalTitle: { fontSize: 20, fontWeight: "bold", textAlign: 'center' },
+  modalText: { fontSize: 15, marginBottom: 8, textAlign: "center" },
   previewImage: {
     width: '100%',
     aspectRatio: 3/4,
@@ -504,25 +1100,53 @@ const styles = StyleSheet.create({
   },
   closeButton: {
     marginTop: 15,
-    backgroundColor: "#007AFF",
     paddingVertical: 12,
     paddingHorizontal: 30,
     borderRadius: 10,
   },
-  closeText: { color: "white", fontWeight: "bold", fontSize: 16 },
+  closeText: { fontWeight: "bold", fontSize: 16 },
+
+  review: { flex: 1 },
+  reviewContent: { padding: 16 },
+  reviewTitle: { fontSize: 20, fontWeight: "bold", marginBottom: 12 },
+  reviewActions: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    paddingHorizontal: 16,
+    borderTopWidth: StyleSheet.hairlineWidth,
+  },
 
+  guideToggle: {
+    position: "absolute",
+    top: 12,
+    left: 12,
+    flexDirection: "row",
+    alignItems: "center",
+    backgroundColor: "rgba(0,0,0,0.5)",
+    borderRadius: 16,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+  },
+  guideToggleText: { color: "white", fontWeight: "600", marginLeft: 4 },
   qrPopup: {
     position: "absolute",
     top: "15%",
     alignSelf: "center",
-    backgroundColor: "rgba(46, 204, 113, 0.9)",
     paddingVertical: 12,
     paddingHorizontal: 20,
     borderRadius: 25,
+    maxWidth: "85%",
   },
   qrPopupText: {
     color: "#fff",
     fontSize: 16,
     fontWeight: "bold",
+    textAlign: "center",
+  },
+  qrPopupDetail: {
+    color: "#fff",
+    fontSize: 13,
+    marginTop: 2,
+    textAlign: "center",
   },
 });
@@ -0,0 +1,186 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { ActivityIndicator, StyleSheet, Text, View } from "react-native";
+import MapView, { Circle, Marker, Polygon } from "react-native-maps";
+import { useRouter } from "expo-router";
+
+import { getZones, loadZones, Zone, ZoneKind } from "../utils/geofence";
+import { Cluster, clusterReports, MappedReport, Region, regionBounds } from "../utils/mapClusters";
+import { StatusColors } from "../constants/Colors";
+import { classifyReport, statusTone } from "../utils/reportResult";
+import { reviewTone } from "../utils/reviews";
+import { fetchReportsInBounds } from "../utils/reports";
+
+const REGION_DEBOUNCE_MS = 400;
+
+// Starts on the same area as the default geofence.
+const INITIAL_REGION: Region = {
+  latitude: 20.2961,
+  longitude: 85.8245,
+  latitudeDelta: 0.08,
+  longitudeDelta: 0.08,
+};
+
+const ZONE_COLORS: Record<ZoneKind, { stroke: string; fill: string }> = {
+  allowed: { stroke: "rgba(22,163,74,0.8)", fill: "rgba(22,163,74,0.12)" },
+  prohibited: { stroke: "rgba(220,38,38,0.8)", fill: "rgba(220,38,38,0.15)" },
+  "school-buffer": { stroke: "rgba(245,158,11,0.9)", fill: "rgba(245,158,11,0.18)" },
+};
+
+function pinColor(report: MappedReport) {
+  if (report.review_status) return StatusColors[reviewTone(report.review_status)];
+  return StatusColors[statusTone(classifyReport(report.status, report.message))];
+}
+
+// Clusters take the color of their worst member so hotspots stand out.
+function clusterColor(reports: MappedReport[]) {
+  const colors = reports.map(pinColor);
+  for (const c of [StatusColors.violation, StatusColors.error, StatusColors.warning, StatusColors.pending]) {
+    if (colors.includes(c)) return c;
+  }
+  return StatusColors.success;
+}
+
+function ZoneOverlay({ zone }: { zone: Zone }) {
+  const { stroke, fill } = ZONE_COLORS[zone.kind];
+  if (zone.polygon && zone.polygon.length >= 3) {
+    return (
+      <Polygon
+        coordinates={zone.polygon.map((p) => ({ latitude: p.lat, longitude: p.lon }))}
+        strokeColor={stroke}
+        fillColor={fill}
+        strokeWidth={2}
+      />
+    );
+  }
+  if (zone.center && zone.radiusM != null) {
+    return (
+      <Circle
+        center={{ latitude: zone.center.lat, longitude: zone.center.lon }}
+        radius={zone.radiusM}
+        strokeColor={stroke}
+        fillColor={fill}
+        strokeWidth={2}
+      />
+    );
+  }
+  return null;
+}
+
+export default function MapScreen() {
+  const router = useRouter();
+  const mapRef = useRef<MapView | null>(null);
+  const [region, setRegion] = useState<Region>(INITIAL_REGION);
+  const [reports, setReports] = useState<MappedReport[]>([]);
+  const [zones, setZones] = useState<Zone[]>(getZones());
+  const [loading, setLoading] = useState(false);
+  const debounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    loadZones().then(setZones);
+  }, []);
+
+  const load = useCallback(async (r: Region) => {
+    setLoading(true);
+    try {
+      const rows = await fetchReportsInBounds(regionBounds(r));
+      setReports(rows.filter((row): row is MappedReport => row.lat != null && row.lon != null));
+    } catch (err) {
+      console.warn("⚠️ Could not load map reports:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    load(INITIAL_REGION);
+    return () => {
+      if (debounceRef.current) clearTimeout(debounceRef.current);
+    };
+  }, [load]);
+
+  const onRegionChangeComplete = (r: Region) => {
+    setRegion(r);
+    if (debounceRef.current) clearTimeout(debounceRef.current);
+    debounceRef.current = setTimeout(() => load(r), REGION_DEBOUNCE_MS);
+  };
+
+  const clusters = useMemo(() => clusterReports(reports, region), [reports, region]);
+
+  const zoomInto = (cluster: Extract<Cluster, { type: "cluster" }>) => {
+    const lats = cluster.reports.map((r) => r.lat);
+    const lons = cluster.reports.map((r) => r.lon);
+    mapRef.current?.animateToRegion({
+      latitude: cluster.latitude,
+      longitude: cluster.longitude,
+      latitudeDelta: Math.max((Math.max(...lats) - Math.min(...lats)) * 1.5, region.latitudeDelta / 4),
+      longitudeDelta: Math.max((Math.max(...lons) - Math.min(...lons)) * 1.5, region.longitudeDelta / 4),
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <MapView
+        ref={mapRef}
+        style={StyleSheet.absoluteFillObject}
+        initialRegion={INITIAL_REGION}
+        onRegionChangeComplete={onRegionChangeComplete}
+        showsUserLocation
+      >
+        {zones.map((zone) => (
+          <ZoneOverlay key={zone.id} zone={zone} />
+        ))}
+
+        {clusters.map((c) =>
+          c.type === "point" ? (
+            <Marker
+              key={c.key}
+              coordinate={{ latitude: c.report.lat, longitude: c.report.lon }}
+              pinColor={pinColor(c.report)}
+              onPress={() => router.push(`/report/${c.report.id}`)}
+            />
+          ) : (
+            <Marker
+              key={c.key}
+              coordinate={{ latitude: c.latitude, longitude: c.longitude }}
+              onPress={() => zoomInto(c)}
+              tracksViewChanges={false}
+            >
+              <View style={[styles.cluster, { backgroundColor: clusterColor(c.reports) }]}>
+                <Text style={styles.clusterText}>{c.reports.length}</Text>
+              </View>
+            </Marker>
+          )
+        )}
+      </MapView>
+
+      {loading && (
+        <View style={styles.loading}>
+          <ActivityIndicator color="#fff" />
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  cluster: {
+    minWidth: 36,
+    height: 36,
+    borderRadius: 18,
+    paddingHorizontal: 8,
+    justifyContent: "center",
+    alignItems: "center",
+    borderWidth: 2,
+    borderColor: "white",
+  },
+  clusterText: { color: "white", fontWeight: "bold" },
+  loading: {
+    position: "absolute",
+    top: 12,
+    alignSelf: "center",
+    backgroundColor: "rgba(0,0,0,0.6)",
+    borderRadius: 16,
+    padding: 8,
+  },
+});
@@ -0,0 +1,498 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  Image,
+  ScrollView,
+  Share,
+  StyleSheet,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import * as Clipboard from "expo-clipboard";
+import MapView, { Marker } from "react-native-maps";
+import { Ionicons } from "@expo/vector-icons";
+
+import { StatusColors } from "../constants/Colors";
+import { Text, useThemeColors } from "../components/Themed";
+import { ZoomableImage } from "../components/ZoomableImage";
+import { categoryLabel, hasAnnotations } from "../utils/annotations";
+import { formatDateTime, t, useLocale } from "../utils/i18n";
+import { findCachedReport } from "../utils/reportCache";
+import { classifyReport, ReasonCode, reasonText, statusLabel } from "../utils/reportResult";
+import { fetchEvidence, fetchReport, Report, ReportEvidence, reportPhotos } from "../utils/reports";
+import { fetchReviews, ReportReview, reviewTone } from "../utils/reviews";
+import { ruleViolations } from "../utils/rules";
+
+const REASON_ICONS: Record<ReasonCode, string> = {
+  "qr-found": "✅",
+  "invalid-qr-format": "✅",
+  "missing-qr": "🚫",
+  "no-license-info": "🚫",
+  "no-billboard": "⚠️",
+  "out-of-zone": "📍",
+  "prohibited-zone": "📍",
+  "school-buffer": "🏫",
+  "outside-time": "🕒",
+  "license-expired": "⌛",
+  "license-forged": "🚫",
+  "saved-offline": "🕓",
+  stored: "🗂️",
+  "upload-failed": "⛔",
+  "capture-failed": "⛔",
+  "policy-violation": "🚫",
+  other: "•",
+};
+
+// Plain-text summary an inspector can paste into a mail or chat. Always in
+// English, like the exported case file, whatever language the app is in.
+function evidenceText(report: Report, evidence: ReportEvidence[]) {
+  const lines = [
+    `Report ${report.id}`,
+    statusLabel(classifyReport(report.status, report.message), "en"),
+    `Captured: ${new Date(report.created_at).toLocaleString()}`,
+  ];
+  if (report.review_status) lines.push(`Review: ${report.review_status}`);
+  if (report.address) lines.push(`Address: ${report.address}`);
+  if (report.lat != null && report.lon != null) {
+    lines.push(`Location: ${report.lat.toFixed(6)}, ${report.lon.toFixed(6)}`);
+    lines.push(`Map: https://maps.google.com/?q=${report.lat},${report.lon}`);
+  }
+  if (report.message) lines.push(`Findings: ${report.message}`);
+  ruleViolations(report.rule_verdicts).forEach((v) =>
+    lines.push(`Rule ${v.ruleId}: ${v.ruleName} (checked on device)`)
+  );
+  if (report.capture) {
+    const { fix, sha256, flags } = report.capture;
+    if (fix.accuracyM != null) lines.push(`GPS accuracy: ±${Math.round(fix.accuracyM)} m`);
+    if (flags.includes("exif-location")) lines.push("Location: from photo EXIF");
+    if (flags.includes("manual-location")) lines.push("Location: placed by reporter");
+    if (flags.includes("unknown-time")) lines.push("Photo time: unknown (time rules not checked)");
+    sha256.forEach((hash, i) => lines.push(`SHA-256 (photo ${i + 1}): ${hash}`));
+  }
+  if (hasAnnotations(report.annotations)) {
+    const { categories, note } = report.annotations;
+    if (categories.length > 0) {
+      lines.push(`Inspector: ${categories.map((c) => categoryLabel(c, "en")).join(", ")}`);
+    }
+    if (note.trim()) lines.push(`Note: ${note.trim()}`);
+  }
+  reportPhotos(report).forEach((url, i, all) =>
+    lines.push(all.length > 1 ? `Photo ${i + 1}: ${url}` : `Photo: ${url}`)
+  );
+  evidence.forEach((e) =>
+    e.image_urls.forEach((url) =>
+      lines.push(`Added ${new Date(e.created_at).toLocaleString()}: ${url}`)
+    )
+  );
+  return lines.join("\n");
+}
+
+export default function ReportDetailScreen({ id }: { id: string }) {
+  const [report, setReport] = useState<Report | null>(null);
+  const [evidence, setEvidence] = useState<ReportEvidence[]>([]);
+  const [reviews, setReviews] = useState<ReportReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [failed, setFailed] = useState(false);
+  const [fromCache, setFromCache] = useState(false);
+  const [photoIndex, setPhotoIndex] = useState(0);
+  const colors = useThemeColors();
+  const muted = { color: colors.textMuted };
+  const warning = { color: colors.warning };
+  useLocale();
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    setFailed(false);
+    setFromCache(false);
+    try {
+      const [row, extra, decisions] = await Promise.all([
+        fetchReport(id),
+        fetchEvidence(id).catch((err) => {
+          console.warn("⚠️ Could not load attached evidence:", err);
+          return [];
+        }),
+        fetchReviews(id).catch((err) => {
+          console.warn("⚠️ Could not load review history:", err);
+          return [];
+        }),
+      ]);
+      setReport(row);
+      setEvidence(extra);
+      setReviews(decisions);
+      setPhotoIndex(0);
+    } catch (err) {
+      console.warn("⚠️ Could not load report:", err);
+      // Offline: the copy the Reports list saved is better than nothing.
+      const cached = await findCachedReport(id);
+      if (cached) {
+        setReport(cached);
+        setFromCache(true);
+      } else {
+        setFailed(true);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const share = async () => {
+    if (!report) return;
+    try {
+      await Share.share({
+        message: evidenceText(report, evidence),
+        url: report.image_url ?? undefined,
+      });
+    } catch (err) {
+      console.warn("⚠️ Share failed:", err);
+    }
+  };
+
+  const copy = async () => {
+    if (!report) return;
+    await Clipboard.setStringAsync(evidenceText(report, evidence));
+    Alert.alert(t("detail.copied"), t("detail.copiedBody"));
+  };
+
+  if (loading) {
+    return (
+      <View style={styles.center}>
+        <ActivityIndicator size="large" color={colors.text} />
+        <Text>{t("detail.loading")}</Text>
+      </View>
+    );
+  }
+
+  if (!report) {
+    return (
+      <View style={styles.center}>
+        <Text>{failed ? t("detail.loadFailed") : t("detail.notFound")}</Text>
+        {failed && (
+          <TouchableOpacity
+            style={[styles.retry, { backgroundColor: colors.primary }]}
+            onPress={load}
+          >
+            <Text style={[styles.actionText, { color: colors.onPrimary }]}>
+              {t("common.retry")}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    );
+  }
+
+  const result = classifyReport(report.status, report.message);
+  const hasCoords = report.lat != null && report.lon != null;
+  const photos = reportPhotos(report);
+  // Attached photos open in the same viewer, after the report's own.
+  const allPhotos = [...photos, ...evidence.flatMap((e) => e.image_urls)];
+
+  return (
+    <ScrollView contentContainerStyle={styles.container}>
+      {allPhotos.length > 0 ? (
+        <ZoomableImage
+          key={allPhotos[photoIndex]}
+          uri={allPhotos[photoIndex]}
+          style={styles.photo}
+        />
+      ) : (
+        <View style={[styles.photo, styles.center, { backgroundColor: colors.surfaceMuted }]}>
+          <Text>{t("detail.noPhoto")}</Text>
+        </View>
+      )}
+
+      {photos.length > 1 && (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.gallery}>
+          {photos.map((uri, i) => (
+            <TouchableOpacity key={uri} onPress={() => setPhotoIndex(i)}>
+              <Image
+                source={{ uri }}
+                style={[
+                  styles.galleryPhoto,
+                  { backgroundColor: colors.surfaceMuted },
+                  i === photoIndex && { borderColor: colors.primary },
+                ]}
+              />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      )}
+
+      {report.review_status ? (
+        <>
+          <Text style={[styles.status, { color: StatusColors[reviewTone(report.review_status)] }]}>
+            {t(`reviewed.${report.review_status}`)}
+          </Text>
+          <Text style={[styles.hint, muted]}>
+            {t("reviewed.automated", { status: statusLabel(result) })}
+          </Text>
+        </>
+      ) : (
+        <Text style={styles.status}>{statusLabel(result)}</Text>
+      )}
+      <Text style={[styles.date, muted]}>{formatDateTime(report.created_at)}</Text>
+      {fromCache && (
+        <TouchableOpacity onPress={load}>
+          <Text style={[styles.hint, muted]}>{t("detail.cached")}</Text>
+        </TouchableOpacity>
+      )}
+
+      <Text style={[styles.section, muted]}>{t("detail.analysis")}</Text>
+      {result.reasons.length === 0 ? (
+        <Text style={styles.reason}>{t("detail.noFindings")}</Text>
+      ) : (
+        result.reasons.map((reason, i) => (
+          <View key={`${reason.code}-${i}`} style={styles.reasonRow}>
+            <Text style={styles.reasonIcon}>{REASON_ICONS[reason.code]}</Text>
+            <Text style={styles.reason}>{reasonText(reason)}</Text>
+          </View>
+        ))
+      )}
+
+      {reviews.length > 0 && (
+        <>
+          <Text style={[styles.section, muted]}>{t("detail.reviews")}</Text>
+          {reviews.map((r) => (
+            <View key={r.id} style={styles.evidenceRow}>
+              <Text style={styles.text}>
+                {t(`review.${r.decision}`)} · {r.reason}
+              </Text>
+              <Text style={[styles.hint, muted]}>
+                {t("detail.reviewer", { id: r.reviewer_id.slice(0, 8) })} ·{" "}
+                {formatDateTime(r.created_at)}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {hasAnnotations(report.annotations) && (
+        <>
+          <Text style={[styles.section, muted]}>{t("detail.inspectorNotes")}</Text>
+          {report.annotations.categories.length > 0 && (
+            <View style={styles.tags}>
+              {report.annotations.categories.map((c) => (
+                <Text
+                  key={c}
+                  style={[
+                    styles.tag,
+                    { color: colors.violation, backgroundColor: colors.violationSurface },
+                  ]}
+                >
+                  {categoryLabel(c)}
+                </Text>
+              ))}
+            </View>
+          )}
+          {report.annotations.hoardingType && (
+            <Text style={styles.text}>{t(`hoarding.${report.annotations.hoardingType}`)}</Text>
+          )}
+          {!!report.annotations.note.trim() && (
+            <Text style={styles.text}>{report.annotations.note.trim()}</Text>
+          )}
+          {report.annotations.box && (
+            <Text style={[styles.hint, muted]}>
+              {t("detail.boxOnPhoto", { number: report.annotations.photoIndex + 1 })}
+            </Text>
+          )}
+        </>
+      )}
+
+      {evidence.length > 0 && (
+        <>
+          <Text style={[styles.section, muted]}>
+            {t("detail.evidence", { count: allPhotos.length - photos.length })}
+          </Text>
+          {evidence.map((e) => (
+            <View key={e.id} style={styles.evidenceRow}>
+              <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                {e.image_urls.map((uri) => (
+                  <TouchableOpacity key={uri} onPress={() => setPhotoIndex(allPhotos.indexOf(uri))}>
+                    <Image
+                      source={{ uri }}
+                      style={[
+                        styles.galleryPhoto,
+                        { backgroundColor: colors.surfaceMuted },
+                        allPhotos[photoIndex] === uri && { borderColor: colors.primary },
+                      ]}
+                    />
+                  </TouchableOpacity>
+                ))}
+              </ScrollView>
+              <Text style={[styles.hint, muted]}>{formatDateTime(e.created_at)}</Text>
+            </View>
+          ))}
+        </>
+      )}
+
+      {report.rule_verdicts && report.rule_verdicts.length > 0 && (
+        <>
+          <Text style={[styles.section, muted]}>{t("detail.rules")}</Text>
+          {report.rule_verdicts.map((v) => (
+            <Text
+              key={v.ruleId}
+              style={v.outcome === "violation" ? [styles.flag, warning] : styles.text}
+            >
+              {t(v.outcome === "violation" ? "rules.violated" : "rules.passed", {
+                name: v.ruleName,
+                id: v.ruleId,
+              })}
+            </Text>
+          ))}
+          <Text style={[styles.hint, muted]}>
+            {t("rules.checkedAt", { date: formatDateTime(report.rule_verdicts[0].evaluatedAt) })}
+          </Text>
+        </>
+      )}
+
+      <Text style={[styles.section, muted]}>{t("detail.location")}</Text>
+      {report.address && <Text style={styles.text}>🏠 {report.address}</Text>}
+      {hasCoords && (
+        <>
+          <Text style={styles.text}>
+            📍 {report.lat!.toFixed(6)}, {report.lon!.toFixed(6)}
+          </Text>
+          <MapView
+            style={styles.map}
+            liteMode
+            initialRegion={{
+              latitude: report.lat!,
+              longitude: report.lon!,
+              latitudeDelta: 0.005,
+              longitudeDelta: 0.005,
+            }}
+          >
+            <Marker coordinate={{ latitude: report.lat!, longitude: report.lon! }} />
+          </MapView>
+        </>
+      )}
+
+      {report.capture && (
+        <>
+          <Text style={[styles.section, muted]}>{t("detail.integrity")}</Text>
+          {report.capture.flags.includes("low-accuracy") && (
+            <Text style={[styles.flag, warning]}>{t("detail.weakGps")}</Text>
+          )}
+          {report.capture.flags.includes("poor-photo") && (
+            <Text style={[styles.flag, warning]}>{t("detail.poorPhoto")}</Text>
+          )}
+          {report.source === "imported" && (
+            <Text style={[styles.flag, warning]}>{t("detail.imported")}</Text>
+          )}
+          {report.capture.flags.includes("exif-location") && (
+            <Text style={[styles.flag, warning]}>{t("detail.exifLocation")}</Text>
+          )}
+          {report.capture.flags.includes("manual-location") && (
+            <Text style={[styles.flag, warning]}>{t("detail.manualLocation")}</Text>
+          )}
+          {report.capture.flags.includes("unknown-time") && (
+            <Text style={[styles.flag, warning]}>{t("detail.unknownTime")}</Text>
+          )}
+          <Text style={styles.text}>
+            {t("detail.accuracy", {
+              accuracy:
+                report.capture.fix.accuracyM != null
+                  ? `±${Math.round(report.capture.fix.accuracyM)} m`
+                  : t("camera.accuracyUnknown"),
+            })}
+            {report.capture.fix.altitudeM != null &&
+              ` · ⛰️ ${Math.round(report.capture.fix.altitudeM)} m`}
+            {report.capture.fix.headingDeg != null &&
+              ` · 🧭 ${Math.round(report.capture.fix.headingDeg)}°`}
+          </Text>
+          <Text style={[styles.hint, muted]}>
+            {t("detail.fixTimes", {
+              fix: report.capture.fix.fixAt
+                ? formatDateTime(report.capture.fix.fixAt)
+                : t("detail.timeUnknown"),
+              device: formatDateTime(report.capture.deviceTime),
+            })}
+          </Text>
+          {report.capture.sha256.map((hash, i) => (
+            <Text key={`${hash}-${i}`} style={[styles.hash, muted]} selectable>
+              #{i + 1} {hash}
+            </Text>
+          ))}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <TouchableOpacity
+          style={[styles.action, { backgroundColor: colors.primary }]}
+          onPress={share}
+        >
+          <Ionicons name="share-outline" size={18} color={colors.onPrimary} />
+          <Text style={[styles.actionText, { color: colors.onPrimary }]}>{t("detail.share")}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.action, { backgroundColor: colors.secondary }]}
+          onPress={copy}
+        >
+          <Ionicons name="copy-outline" size={18} color={colors.onPrimary} />
+          <Text style={[styles.actionText, { color: colors.onPrimary }]}>{t("detail.copy")}</Text>
+        </TouchableOpacity>
+      </View>
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, justifyContent: "center", alignItems: "center" },
+  container: { padding: 16, paddingBottom: 32 },
+  photo: {
+    width: "100%",
+    aspectRatio: 3 / 4,
+    borderRadius: 12,
+  },
+  gallery: { marginTop: 10, flexGrow: 0 },
+  galleryPhoto: {
+    width: 64,
+    height: 64,
+    borderRadius: 8,
+    marginRight: 8,
+    borderWidth: 2,
+    borderColor: "transparent",
+  },
+  evidenceRow: { marginBottom: 6 },
+  status: { fontSize: 20, fontWeight: "bold", marginTop: 14 },
+  date: { fontSize: 13, marginTop: 2 },
+  section: { fontSize: 13, fontWeight: "600", marginTop: 18, marginBottom: 6 },
+  reasonRow: { flexDirection: "row", alignItems: "flex-start", marginBottom: 6 },
+  reasonIcon: { width: 24, fontSize: 15 },
+  reason: { flex: 1, fontSize: 15 },
+  text: { fontSize: 15, marginBottom: 6 },
+  hint: { fontSize: 13, marginBottom: 6 },
+  flag: { fontSize: 14, marginBottom: 6 },
+  hash: { fontSize: 11, fontFamily: "SpaceMono", marginBottom: 2 },
+  tags: { flexDirection: "row", flexWrap: "wrap", marginBottom: 6 },
+  tag: {
+    fontSize: 13,
+    borderRadius: 12,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    marginRight: 6,
+    marginBottom: 6,
+    overflow: "hidden",
+  },
+  map: { width: "100%", height: 180, borderRadius: 12, marginTop: 4 },
+  actions: { flexDirection: "row", marginTop: 20 },
+  action: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+    marginRight: 10,
+  },
+  actionText: { fontWeight: "600", marginLeft: 6 },
+  retry: {
+    marginTop: 12,
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+  },
+});
@@ -1,172 +1,483 @@
-import React, { useCallback, useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   View,
-  Text,
   FlatList,
   Image,
   StyleSheet,
   ActivityIndicator,
+  Alert,
   RefreshControl,
+  TouchableOpacity,
 } from "react-native";
-import { supabase } from "../utils/supabase";
-
-type Report = {
-  id: string;
-  user_id: string | null;
-  image_url: string | null;
-  lat: number | null;
-  lon: number | null;
-  address: string | null;
-  status: string | null;
-  created_at: string;
-  message: string | null;
-};
-
-const PAGE_SIZE = 12;
+import { Ionicons } from "@expo/vector-icons";
+import { useFocusEffect, useNavigation, useRouter } from "expo-router";
+import * as Location from "expo-location";
+import { ExportSheet } from "../components/ExportSheet";
+import { ReportFilterBar } from "../components/ReportFilterBar";
+import { Text, useThemeColors } from "../components/Themed";
+import { useAuth } from "../utils/auth";
+import {
+  EXPORT_LIMIT,
+  ExportFormat,
+  exportReports,
+  fetchReportsForExport,
+} from "../utils/exportReports";
+import { OutboxItem, useOutbox } from "../utils/outbox";
+import { ReportChange, subscribeReportChanges } from "../utils/realtime";
+import { thumbnailUri, useCachedReports } from "../utils/reportCache";
+import { formatDateTime, t, useLocale } from "../utils/i18n";
+import {
+  classifyReport,
+  reasonText,
+  resultHint,
+  statusLabel,
+  statusTone,
+} from "../utils/reportResult";
+import {
+  DEFAULT_FILTERS,
+  isFiltered,
+  loadFilters,
+  matchesFilters,
+  ReportFilters,
+  saveFilters,
+} from "../utils/reportFilters";
+import { Coords, Report, reportPhotos } from "../utils/reports";
+import { reviewTone } from "../utils/reviews";
+
+const HIGHLIGHT_MS = 4000;
+
+type Scope = "all" | "mine";
+
+// Captures still sitting in the on-device outbox are shown above the fetched
+// rows so the user can see they were not lost.
+function outboxToReport(item: OutboxItem): Report {
+  return {
+    id: `outbox:${item.id}`,
+    user_id: item.userId,
+    image_url: item.photoUris[0] ?? null,
+    image_urls: item.photoUris,
+    lat: item.lat,
+    lon: item.lon,
+    address: item.address,
+    status: "queued",
+    created_at: item.createdAt,
+    message: null,
+  };
+}
 
 export default function ReportsScreen() {
-  const [reports, setReports] = useState<Report[]>([]);
-  const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
-  const [page, setPage] = useState(0);
-  const [endReached, setEndReached] = useState(false);
-  const loadingMoreRef = useRef(false);
-
-  const fetchPage = useCallback(async (pageIndex: number) => {
-    const from = pageIndex * PAGE_SIZE;
-    const to = from + PAGE_SIZE - 1;
-
-    const { data, error } = await supabase
-      .from("reports")
-      .select("*")
-      .order("created_at", { ascending: false })
-      .range(from, to);
-
-    if (error) throw error;
-    return (data ?? []) as Report[];
+  const router = useRouter();
+  const navigation = useNavigation();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [scope, setScope] = useState<Scope>("mine");
+  const [filters, setFilters] = useState<ReportFilters>(DEFAULT_FILTERS);
+  const [filtersReady, setFiltersReady] = useState(false);
+  const [origin, setOrigin] = useState<Coords | null>(null);
+  const outbox = useOutbox();
+  useLocale();
+  const colors = useThemeColors();
+  // Queued captures have no server status yet, so they only show unfiltered.
+  const queuedRows = useMemo(
+    () =>
+      isFiltered(filters)
+        ? []
+        : outbox
+            .filter((it) => scope === "all" || it.userId === userId)
+            .map(outboxToReport),
+    [outbox, scope, userId, filters]
+  );
+
+  useEffect(() => {
+    loadFilters().then((saved) => {
+      setFilters(saved);
+      setFiltersReady(true);
+    });
   }, []);
 
-  const loadInitial = useCallback(async () => {
-    setLoading(true);
-    try {
-      const data = await fetchPage(0);
-      setReports(data);
-      setPage(0);
-      setEndReached(data.length < PAGE_SIZE);
-    } finally {
-      setLoading(false);
-    }
-  }, [fetchPage]);
+  const changeFilters = useCallback((next: ReportFilters) => {
+    setFilters(next);
+    saveFilters(next).catch((err) => console.warn("⚠️ Could not save filters:", err));
+  }, []);
 
+  // "Nearest to me" needs a fix; without one the list stays in newest order.
   useEffect(() => {
-    loadInitial();
-  }, [loadInitial]);
+    if (filters.sort !== "nearest" || origin) return;
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== "granted") return;
+        const loc =
+          (await Location.getLastKnownPositionAsync()) ??
+          (await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Low }));
+        setOrigin({ latitude: loc.coords.latitude, longitude: loc.coords.longitude });
+      } catch (err) {
+        console.warn("⚠️ Could not get location for nearest sort:", err);
+      }
+    })();
+  }, [filters.sort, origin]);
+
+  // Opens from the on-device cache and refreshes in the background.
+  const {
+    reports,
+    loading,
+    endReached,
+    offline,
+    cachedAt,
+    refresh,
+    loadMore,
+    update: updateReports,
+  } = useCachedReports(filters, {
+    userId: scope === "mine" ? userId : null,
+    origin,
+    enabled: filtersReady,
+  });
 
   const onRefresh = useCallback(async () => {
     setRefreshing(true);
     try {
-      const data = await fetchPage(0);
-      setReports(data);
-      setPage(0);
-      setEndReached(data.length < PAGE_SIZE);
+      await refresh();
     } finally {
       setRefreshing(false);
     }
-  }, [fetchPage]);
+  }, [refresh]);
+
+  // A queued item disappearing means it just synced; pull the fresh row in.
+  const outboxSizeRef = useRef(outbox.length);
+  useEffect(() => {
+    if (outbox.length < outboxSizeRef.current) onRefresh();
+    outboxSizeRef.current = outbox.length;
+  }, [outbox.length, onRefresh]);
+
+  // -------------------- Realtime --------------------
+  const [highlighted, setHighlighted] = useState<Record<string, true>>({});
+  const highlightTimers = useRef<Record<string, ReturnType<typeof setTimeout>>>({});
+
+  const highlight = useCallback((id: string) => {
+    clearTimeout(highlightTimers.current[id]);
+    setHighlighted((prev) => ({ ...prev, [id]: true }));
+    highlightTimers.current[id] = setTimeout(() => {
+      delete highlightTimers.current[id];
+      setHighlighted(({ [id]: _, ...rest }) => rest);
+    }, HIGHLIGHT_MS);
+  }, []);
+
+  useEffect(() => () => Object.values(highlightTimers.current).forEach(clearTimeout), []);
+
+  const applyChange = useCallback(
+    (change: ReportChange) => {
+      const scopeUser = scope === "mine" ? userId : null;
+
+      if (change.eventType === "DELETE") {
+        const id = (change.old as Partial<Report>).id;
+        updateReports((prev) => prev.filter((r) => r.id !== id));
+        return;
+      }
+
+      const row = change.new;
+      if (change.eventType === "INSERT") {
+        // Only the newest-first list has an obvious place for a brand new row.
+        if (filters.sort !== "newest" || !matchesFilters(row, filters, { userId: scopeUser })) return;
+        updateReports((prev) => (prev.some((r) => r.id === row.id) ? prev : [row, ...prev]));
+        highlight(row.id);
+        return;
+      }
+
+      // An edit can move a row out of the current filters; it leaves the list.
+      const current = reports.find((r) => r.id === row.id);
+      if (!current) return;
+      const merged = { ...current, ...row };
+      if (!matchesFilters(merged, filters, { userId: scopeUser })) {
+        updateReports((prev) => prev.filter((r) => r.id !== row.id));
+        return;
+      }
+      updateReports((prev) => prev.map((r) => (r.id === row.id ? merged : r)));
+      const statusChanged =
+        current.status !== row.status ||
+        current.message !== row.message ||
+        current.review_status !== row.review_status;
+      if (statusChanged) highlight(row.id);
+    },
+    [scope, userId, filters, reports, highlight, updateReports]
+  );
+
+  // Subscribe only while the tab is focused; leaving the tab drops the channel
+  // and coming back opens a fresh one.
+  const applyChangeRef = useRef(applyChange);
+  applyChangeRef.current = applyChange;
+  useFocusEffect(
+    useCallback(() => {
+      if (!filtersReady) return;
+      return subscribeReportChanges("list", (change) => applyChangeRef.current(change), {
+        userId: scope === "mine" ? userId : null,
+      });
+    }, [filtersReady, scope, userId])
+  );
+
+  // Changes made while the tab was in the background were never received.
+  const onRefreshRef = useRef(onRefresh);
+  onRefreshRef.current = onRefresh;
+  useEffect(() => {
+    let firstFocus = true;
+    return navigation.addListener("focus", () => {
+      if (!firstFocus) onRefreshRef.current();
+      firstFocus = false;
+    });
+  }, [navigation]);
+
+  // -------------------- Selection + export --------------------
+  // Long-press starts picking rows; with nothing picked, Export takes every
+  // report the current scope and filters match.
+  const [selected, setSelected] = useState<Record<string, true>>({});
+  const [exportOpen, setExportOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const selectedRows = reports.filter((r) => selected[r.id]);
+  const selecting = selectedRows.length > 0;
+
+  useEffect(() => setSelected({}), [scope, filters]);
 
-  const loadMore = useCallback(async () => {
-    if (loadingMoreRef.current || endReached || loading) return;
-    loadingMoreRef.current = true;
+  const toggleSelected = useCallback((id: string) => {
+    setSelected(({ [id]: was, ...rest }) => (was ? rest : { ...rest, [id]: true }));
+  }, []);
+
+  const runExport = async (format: ExportFormat) => {
+    setExportOpen(false);
+    setExporting(true);
     try {
-      const next = page + 1;
-      const data = await fetchPage(next);
-      setReports(prev => [...prev, ...data]);
-      setPage(next);
-      if (data.length < PAGE_SIZE) setEndReached(true);
+      const rows = selecting
+        ? selectedRows
+        : await fetchReportsForExport(filters, {
+            userId: scope === "mine" ? userId : null,
+            origin,
+          });
+      if (rows.length === 0) {
+        Alert.alert(t("export.failed"), t("export.empty"));
+        return;
+      }
+      const exported = await exportReports(rows, format);
+      setSelected({});
+      if (exported < rows.length) {
+        Alert.alert(t("export.cappedTitle"), t("export.cappedBody", { count: exported, total: rows.length }));
+      }
+    } catch (err: any) {
+      console.warn("⚠️ Export failed:", err);
+      Alert.alert(t("export.failed"), err?.message ?? String(err));
     } finally {
-      loadingMoreRef.current = false;
+      setExporting(false);
     }
-  }, [page, endReached, loading, fetchPage]);
+  };
 
   const renderItem = ({ item }: { item: Report }) => {
-    // NEW: Conditional message based on the issue
-    let displayMessage = item.message;
-    if (item.message?.includes('No billboard detected')) {
-        displayMessage = 'You are supposed to click a Billboard Picture';
-    } else if (item.message?.includes('Missing QR')) {
-        displayMessage = 'Violation Report will be drafted Soon';
-    } else if (item.message?.includes('No license information')) {
-        displayMessage = 'Sorry but there is no issue in the Billboard';
-    }
+    const result = classifyReport(item.status, item.message);
+    const displayMessage =
+      resultHint(result) ??
+      (result.reasons.length > 0 ? result.reasons.map(reasonText).join("; ") : null);
 
     const subtitle =
       displayMessage ??
       item.address ??
       (item.lat != null && item.lon != null
         ? `📍 ${item.lat.toFixed(4)}, ${item.lon.toFixed(4)}`
-        : "No details");
+        : t("reports.noDetails"));
+
+    const isQueued = item.id.startsWith("outbox:");
+    const isSelected = !!selected[item.id];
+    const photos = reportPhotos(item);
 
     return (
-      <View style={styles.card}>
-        <Thumb uri={item.image_url} />
+      <TouchableOpacity
+        style={[
+          styles.card,
+          { backgroundColor: highlighted[item.id] ? colors.highlight : colors.surface },
+          isSelected && { borderColor: colors.primary },
+        ]}
+        activeOpacity={0.7}
+        disabled={isQueued}
+        onPress={() => (selecting ? toggleSelected(item.id) : router.push(`/report/${item.id}`))}
+        onLongPress={() => toggleSelected(item.id)}
+      >
+        {isSelected && (
+          <Ionicons
+            name="checkmark-circle"
+            size={22}
+            color={colors.primary}
+            style={styles.selectedMark}
+          />
+        )}
+        <View>
+          <Thumb uri={thumbnailUri(item)} />
+          {photos.length > 1 && (
+            <View style={styles.photoCount}>
+              <Text style={styles.photoCountText}>📷 {photos.length}</Text>
+            </View>
+          )}
+        </View>
         <View style={styles.info}>
-          {/* UPDATED: Display the dynamic status label */}
-          <Text style={styles.status}>{statusLabel(item.status, item.message)}</Text>
+          {/* A reviewer's decision is the final word; the automated result stays visible under it. */}
+          {item.review_status ? (
+            <>
+              <Text style={[styles.status, { color: colors[reviewTone(item.review_status)] }]}>
+                {t(`reviewed.${item.review_status}`)}
+              </Text>
+              <Text style={[styles.date, { color: colors.textMuted }]}>
+                {t("reviewed.automated", { status: statusLabel(result) })}
+              </Text>
+            </>
+          ) : (
+            <Text style={[styles.status, { color: colors[statusTone(result)] }]}>
+              {statusLabel(result)}
+            </Text>
+          )}
           <Text style={styles.address} numberOfLines={2}>
             {subtitle}
           </Text>
-          <Text style={styles.date}>
-            {new Date(item.created_at).toLocaleString()}
+          <Text style={[styles.date, { color: colors.textMuted }]}>
+            {formatDateTime(item.created_at)}
           </Text>
+          {photos.length > 1 && (
+            <View style={styles.strip}>
+              {photos.slice(1, 5).map((uri) => (
+                <Image
+                  key={uri}
+                  source={{ uri }}
+                  style={[styles.stripPhoto, { backgroundColor: colors.surfaceMuted }]}
+                />
+              ))}
+            </View>
+          )}
         </View>
-      </View>
+      </TouchableOpacity>
     );
   };
 
-  if (loading && reports.length === 0) {
-    return (
+  const rows = [...queuedRows, ...reports];
+
+  let content: React.ReactNode;
+  if (loading && rows.length === 0) {
+    content = (
       <View style={styles.center}>
-        <ActivityIndicator size="large" color="#000" />
-        <Text>Loading reports...</Text>
+        <ActivityIndicator size="large" color={colors.text} />
+        <Text>{t("reports.loading")}</Text>
       </View>
     );
-  }
-
-  if (!loading && reports.length === 0) {
-    return (
+  } else if (!loading && rows.length === 0) {
+    content = (
       <View style={styles.center}>
-        <Text>No reports submitted yet.</Text>
+        <Text>
+          {offline
+            ? t("reports.offline")
+            : isFiltered(filters)
+            ? t("reports.emptyFiltered")
+            : scope === "mine"
+            ? t("reports.emptyMine")
+            : t("reports.emptyAll")}
+        </Text>
+        {offline && (
+          <TouchableOpacity style={styles.retry} onPress={onRefresh} hitSlop={8}>
+            <Text style={[styles.toolbarAction, { color: colors.primary }]}>{t("common.retry")}</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
+  } else {
+    content = (
+      <FlatList
+        data={rows}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.list}
+        renderItem={renderItem}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        onEndReachedThreshold={0.3}
+        onEndReached={loadMore}
+        ListHeaderComponent={
+          offline && cachedAt ? (
+            <Text style={[styles.cachedNote, { color: colors.textMuted }]}>
+              {t("reports.cachedAt", { date: formatDateTime(cachedAt) })}
+            </Text>
+          ) : null
+        }
+        ListFooterComponent={
+          !endReached && !offline ? (
+            <View style={{ paddingVertical: 12 }}>
+              <ActivityIndicator />
+            </View>
+          ) : null
+        }
+      />
+    );
   }
 
   return (
-    <FlatList
-      data={reports}
-      keyExtractor={(item) => item.id}
-      contentContainerStyle={styles.list}
-      renderItem={renderItem}
-      refreshControl={
-        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
-      }
-      onEndReachedThreshold={0.3}
-      onEndReached={loadMore}
-      ListFooterComponent={
-        !endReached ? (
-          <View style={{ paddingVertical: 12 }}>
-            <ActivityIndicator />
-          </View>
-        ) : null
-      }
-    />
+    <View style={{ flex: 1, backgroundColor: colors.screen }}>
+      <View style={[styles.scopeBar, { backgroundColor: colors.surfaceMuted }]}>
+        {(["mine", "all"] as Scope[]).map((s) => (
+          <TouchableOpacity
+            key={s}
+            style={[styles.scopeTab, scope === s && { backgroundColor: colors.primary }]}
+            onPress={() => setScope(s)}
+          >
+            <Text style={[styles.scopeText, scope === s && { color: colors.onPrimary }]}>
+              {s === "mine" ? t("reports.mine") : t("reports.all")}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      <ReportFilterBar filters={filters} onChange={changeFilters} />
+      <View style={styles.toolbar}>
+        {selecting ? (
+          <>
+            <Text style={styles.toolbarText}>
+              {t("reports.selected", { count: selectedRows.length })}
+            </Text>
+            <TouchableOpacity onPress={() => setSelected({})} hitSlop={8}>
+              <Text style={[styles.toolbarAction, { color: colors.textMuted }]}>
+                {t("filters.clear")}
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <View style={{ flex: 1 }} />
+        )}
+        <TouchableOpacity
+          style={styles.exportButton}
+          onPress={() => setExportOpen(true)}
+          disabled={exporting}
+          hitSlop={8}
+        >
+          {exporting ? (
+            <ActivityIndicator size="small" color={colors.primary} />
+          ) : (
+            <Ionicons name="share-outline" size={18} color={colors.primary} />
+          )}
+          <Text style={[styles.toolbarAction, { color: colors.primary }]}>
+            {t("export.button")}
+          </Text>
+        </TouchableOpacity>
+      </View>
+      {content}
+      <ExportSheet
+        visible={exportOpen}
+        title={
+          selecting
+            ? t("export.selectedTitle", { count: selectedRows.length })
+            : t("export.allTitle", { max: EXPORT_LIMIT })
+        }
+        onPick={runExport}
+        onClose={() => setExportOpen(false)}
+      />
+    </View>
   );
 }
 
 function Thumb({ uri }: { uri: string | null }) {
   const [errored, setErrored] = useState(false);
+  const colors = useThemeColors();
   if (!uri || errored) {
     return (
-      <View style={styles.thumbFallback}>
+      <View style={[styles.thumbnail, { backgroundColor: colors.surfaceMuted }]}>
         <Text style={{ textAlign: 'center' }}>📷</Text>
       </View>
     );
@@ -174,64 +485,70 @@ function Thumb({ uri }: { uri: string | null }) {
   return (
     <Image
       source={{ uri }}
-      style={styles.thumbnail}
+      style={[styles.thumbnail, { backgroundColor: colors.surfaceMuted }]}
       resizeMode="cover"
       onError={() => setErrored(true)}
     />
   );
 }
 
-
-function statusLabel(status?: string | null, message?: string | null) {
-  // NEW: Check for specific messages from the backend
-  if (message?.includes('No billboard detected')) {
-    return '⚠️ Invalid Image';
-  }
-  if (message?.includes('Missing QR')) {
-    return '🚫 Violation Detected';
-  }
-  if (message?.includes('Invalid QR format')) {
-    //There is an underlying issue with QRcode Scanner that when detectes QR changes it to Invalid QR format
-    return '✅ All Correct';
-  }
-
-  // Fallback to the original status logic if no specific message is found
-  const map: Record<string, string> = {
-    pending: "⏳ Pending",
-    success: "✅ All Correct", // Updated to reflect the desired success message
-    warning: "⚠️ Warning",
-    error: "⛔ Error",
-    violation: "🚫 Violation",
-  };
-  return map[status ?? "pending"] ?? "⏳ Pending";
-}
-
 const styles = StyleSheet.create({
   center: { flex: 1, justifyContent: "center", alignItems: "center" },
   list: { padding: 10 },
+  retry: { marginTop: 12 },
+  cachedNote: { fontSize: 12, textAlign: "center", marginBottom: 6 },
+  scopeBar: {
+    flexDirection: "row",
+    marginHorizontal: 10,
+    marginTop: 10,
+    borderRadius: 10,
+  },
+  scopeTab: { flex: 1, paddingVertical: 8, borderRadius: 10, alignItems: "center" },
+  scopeText: { fontWeight: "600" },
   card: {
     flexDirection: "row",
-    backgroundColor: "white",
     padding: 10,
     marginBottom: 10,
     borderRadius: 12,
+    borderWidth: 2,
+    borderColor: "transparent",
     elevation: 2,
   },
+  selectedMark: { position: "absolute", top: 6, right: 6, zIndex: 1 },
+  toolbar: {
+    flexDirection: "row",
+    alignItems: "center",
+    paddingHorizontal: 14,
+    paddingTop: 6,
+  },
+  toolbarText: { flex: 1, fontWeight: "600" },
+  toolbarAction: { fontWeight: "600", marginLeft: 6 },
+  exportButton: { flexDirection: "row", alignItems: "center", marginLeft: 16 },
   thumbnail: {
     width: 80,
     height: 100,
     borderRadius: 8,
-    backgroundColor: "#e5e7eb",
     resizeMode: "cover",
   },
-  thumbFallback: {
-    width: 80,
-    height: 100,
+  photoCount: {
+    position: "absolute",
+    right: 4,
+    bottom: 4,
+    backgroundColor: "rgba(0,0,0,0.6)",
     borderRadius: 8,
-    backgroundColor: "#e5e7eb",
+    paddingHorizontal: 5,
+    paddingVertical: 1,
+  },
+  photoCountText: { color: "white", fontSize: 11, fontWeight: "600" },
+  strip: { flexDirection: "row", marginTop: 6 },
+  stripPhoto: {
+    width: 32,
+    height: 32,
+    borderRadius: 4,
+    marginRight: 4,
   },
   info: { flex: 1, marginLeft: 10, justifyContent: "center" },
   status: { fontWeight: "bold", marginBottom: 4 },
-  address: { fontSize: 14, color: "#111", marginBottom: 4 },
-  date: { fontSize: 12, color: "#666" },
+  address: { fontSize: 14, marginBottom: 4 },
+  date: { fontSize: 12 },
 });
@@ -0,0 +1,307 @@
+import React, { useCallback, useRef, useState } from "react";
+import {
+  ActivityIndicator,
+  Alert,
+  FlatList,
+  Image,
+  RefreshControl,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { useFocusEffect, useRouter } from "expo-router";
+
+import { Text, useThemeColors } from "../components/Themed";
+import { useAuth } from "../utils/auth";
+import { formatDateTime, t, useLocale } from "../utils/i18n";
+import { classifyReport, reasonText, statusLabel, statusTone } from "../utils/reportResult";
+import { Report, reportPhotos } from "../utils/reports";
+import {
+  fetchReviewQueue,
+  isReviewer,
+  isValidReason,
+  MIN_REASON_LENGTH,
+  REVIEW_DECISIONS,
+  REVIEW_QUEUES,
+  REVIEW_STATUS,
+  ReviewDecision,
+  ReviewQueue,
+  submitReview,
+} from "../utils/reviews";
+
+const PAGE_SIZE = 20;
+
+// Queue of pending and violation reports nobody has reviewed yet, and a second
+// one of escalated reports. Tapping a card opens its decision panel; a saved
+// decision drops the card unless it keeps the report in the same queue.
+export default function ReviewScreen() {
+  const { user } = useAuth();
+  const router = useRouter();
+  const colors = useThemeColors();
+  useLocale();
+
+  const [kind, setKind] = useState<ReviewQueue>("new");
+  const [queue, setQueue] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [endReached, setEndReached] = useState(false);
+  const loadingMoreRef = useRef(false);
+
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [decision, setDecision] = useState<ReviewDecision | null>(null);
+  const [reason, setReason] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const reviewer = isReviewer(user);
+
+  const reload = useCallback(async () => {
+    try {
+      const data = await fetchReviewQueue(kind, 0, PAGE_SIZE);
+      setQueue(data);
+      setEndReached(data.length < PAGE_SIZE);
+    } catch (err) {
+      console.warn("⚠️ Could not load review queue:", err);
+    }
+  }, [kind]);
+
+  // Other reviewers work the same queue, so it is refetched on every visit.
+  useFocusEffect(
+    useCallback(() => {
+      if (!reviewer) return;
+      setLoading(true);
+      reload().finally(() => setLoading(false));
+    }, [reviewer, reload])
+  );
+
+  const onRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await reload();
+    } finally {
+      setRefreshing(false);
+    }
+  }, [reload]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || endReached || loading) return;
+    loadingMoreRef.current = true;
+    try {
+      const data = await fetchReviewQueue(kind, queue.length, PAGE_SIZE);
+      setQueue((prev) => [...prev, ...data.filter((r) => !prev.some((p) => p.id === r.id))]);
+      if (data.length < PAGE_SIZE) setEndReached(true);
+    } catch (err) {
+      console.warn("⚠️ Could not load more of the review queue:", err);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [kind, queue.length, endReached, loading]);
+
+  const switchQueue = (next: ReviewQueue) => {
+    if (next === kind) return;
+    setKind(next);
+    setQueue([]);
+    setOpenId(null);
+  };
+
+  const toggleOpen = (id: string) => {
+    setOpenId((prev) => (prev === id ? null : id));
+    setDecision(null);
+    setReason("");
+  };
+
+  const save = async (report: Report) => {
+    if (!decision) return;
+    if (!isValidReason(reason)) {
+      Alert.alert(t("review.failed"), t("review.reasonTooShort", { min: MIN_REASON_LENGTH }));
+      return;
+    }
+    setSaving(true);
+    try {
+      const review = await submitReview(report.id, decision, reason);
+      const stays = kind === "escalated" && REVIEW_STATUS[review.decision] === "escalated";
+      if (!stays) setQueue((prev) => prev.filter((r) => r.id !== report.id));
+      setOpenId(null);
+      setDecision(null);
+      setReason("");
+    } catch (err: any) {
+      console.warn("⚠️ Review failed:", err);
+      Alert.alert(t("review.failed"), err?.message ?? String(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!reviewer) {
+    return (
+      <View style={[styles.center, { backgroundColor: colors.screen }]}>
+        <Text>{t("review.notAllowed")}</Text>
+      </View>
+    );
+  }
+
+
+  const renderItem = ({ item }: { item: Report }) => {
+    const result = classifyReport(item.status, item.message);
+    const photo = reportPhotos(item)[0] ?? null;
+    const open = openId === item.id;
+    const canSave = !!decision && isValidReason(reason) && !saving;
+
+    return (
+      <View style={[styles.card, { backgroundColor: colors.surface }]}>
+        <TouchableOpacity style={styles.row} activeOpacity={0.7} onPress={() => toggleOpen(item.id)}>
+          {photo ? (
+            <Image
+              source={{ uri: photo }}
+              style={[styles.thumbnail, { backgroundColor: colors.surfaceMuted }]}
+            />
+          ) : (
+            <View style={[styles.thumbnail, styles.center, { backgroundColor: colors.surfaceMuted }]}>
+              <Text>📷</Text>
+            </View>
+          )}
+          <View style={styles.info}>
+            <Text style={[styles.status, { color: colors[statusTone(result)] }]}>
+              {statusLabel(result)}
+            </Text>
+            {result.reasons.length > 0 && (
+              <Text style={styles.text} numberOfLines={2}>
+                {result.reasons.map(reasonText).join("; ")}
+              </Text>
+            )}
+            {item.address && (
+              <Text style={[styles.text, { color: colors.textMuted }]} numberOfLines={1}>
+                🏠 {item.address}
+              </Text>
+            )}
+            <Text style={[styles.date, { color: colors.textMuted }]}>
+              {formatDateTime(item.created_at)}
+            </Text>
+          </View>
+        </TouchableOpacity>
+
+        {open && (
+          <View style={[styles.panel, { borderTopColor: colors.border }]}>
+            <View style={styles.decisions}>
+              {REVIEW_DECISIONS.map((d) => (
+                <TouchableOpacity
+                  key={d}
+                  style={[
+                    styles.chip,
+                    { backgroundColor: colors.surfaceMuted },
+                    decision === d && { backgroundColor: colors.primary },
+                  ]}
+                  onPress={() => setDecision(d)}
+                >
+                  <Text style={[styles.chipText, decision === d && { color: colors.onPrimary }]}>
+                    {t(`review.${d}`)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={[styles.reason, { borderColor: colors.border, color: colors.text }]}
+              value={reason}
+              onChangeText={setReason}
+              placeholder={t("review.reasonPlaceholder")}
+              placeholderTextColor={colors.textMuted}
+              multiline
+            />
+            <View style={styles.panelActions}>
+              <TouchableOpacity onPress={() => router.push(`/report/${item.id}`)}>
+                <Text style={[styles.link, { color: colors.primary }]}>{t("review.open")}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.save, { backgroundColor: colors.primary }, !canSave && styles.disabled]}
+                disabled={!canSave}
+                onPress={() => save(item)}
+              >
+                {saving ? (
+                  <ActivityIndicator size="small" color={colors.onPrimary} />
+                ) : (
+                  <Text style={[styles.saveText, { color: colors.onPrimary }]}>
+                    {t("review.save")}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={{ flex: 1, backgroundColor: colors.screen }}>
+      <View style={[styles.queueBar, { backgroundColor: colors.surfaceMuted }]}>
+        {REVIEW_QUEUES.map((q) => (
+          <TouchableOpacity
+            key={q}
+            style={[styles.queueTab, kind === q && { backgroundColor: colors.primary }]}
+            onPress={() => switchQueue(q)}
+          >
+            <Text style={[styles.queueText, kind === q && { color: colors.onPrimary }]}>
+              {t(`review.queue.${q}`)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+      {loading && queue.length === 0 ? (
+        <View style={styles.center}>
+          <ActivityIndicator size="large" color={colors.text} />
+          <Text>{t("review.loading")}</Text>
+        </View>
+      ) : (
+        <FlatList
+          data={queue}
+          keyExtractor={(item) => item.id}
+          contentContainerStyle={queue.length === 0 ? styles.center : styles.list}
+          renderItem={renderItem}
+          keyboardShouldPersistTaps="handled"
+          refreshControl={<RefreshControl refreshing={refreshing} onRefresh={onRefresh} />}
+          onEndReachedThreshold={0.3}
+          onEndReached={loadMore}
+          ListEmptyComponent={
+            <Text>{kind === "escalated" ? t("review.emptyEscalated") : t("review.empty")}</Text>
+          }
+        />
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  center: { flex: 1, justifyContent: "center", alignItems: "center" },
+  list: { padding: 10 },
+  queueBar: { flexDirection: "row", marginHorizontal: 10, marginTop: 10, borderRadius: 10 },
+  queueTab: { flex: 1, paddingVertical: 8, borderRadius: 10, alignItems: "center" },
+  queueText: { fontWeight: "600" },
+  card: { borderRadius: 12, marginBottom: 10, elevation: 2 },
+  row: { flexDirection: "row", padding: 10 },
+  thumbnail: { width: 70, height: 90, borderRadius: 8 },
+  info: { flex: 1, marginLeft: 10, justifyContent: "center" },
+  status: { fontWeight: "bold", marginBottom: 4 },
+  text: { fontSize: 14, marginBottom: 2 },
+  date: { fontSize: 12 },
+  panel: { borderTopWidth: StyleSheet.hairlineWidth, padding: 10 },
+  decisions: { flexDirection: "row", marginBottom: 8 },
+  chip: { paddingHorizontal: 12, paddingVertical: 6, borderRadius: 16, marginRight: 8 },
+  chipText: { fontWeight: "600" },
+  reason: {
+    borderWidth: 1,
+    borderRadius: 8,
+    padding: 8,
+    minHeight: 60,
+    textAlignVertical: "top",
+  },
+  panelActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: 10,
+  },
+  link: { fontWeight: "600" },
+  save: { paddingHorizontal: 16, paddingVertical: 8, borderRadius: 8, minWidth: 120, alignItems: "center" },
+  saveText: { fontWeight: "600" },
+  disabled: { opacity: 0.5 },
+});
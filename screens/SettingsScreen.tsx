@@ -0,0 +1,131 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  ScrollView,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+
+import {
+  getApiBaseUrl,
+  getApiBaseUrlOverride,
+  pingBackend,
+  PingResult,
+  setApiBaseUrlOverride,
+} from "../utils/api";
+import { Text, useThemeColors } from "../components/Themed";
+import config from "../utils/config";
+
+// Hidden tester screen, opened by long-pressing the Camera header title.
+export default function SettingsScreen() {
+  const [url, setUrl] = useState(getApiBaseUrl());
+  const [isOverridden, setIsOverridden] = useState(getApiBaseUrlOverride() != null);
+  const [checking, setChecking] = useState(false);
+  const [ping, setPing] = useState<PingResult | null>(null);
+  const colors = useThemeColors();
+  const label = [styles.label, { color: colors.textMuted }];
+
+  const save = async () => {
+    const next = url.trim() === config.apiBaseUrl ? null : url;
+    setUrl(await setApiBaseUrlOverride(next));
+    setIsOverridden(getApiBaseUrlOverride() != null);
+    setPing(null);
+  };
+
+  const reset = async () => {
+    setUrl(await setApiBaseUrlOverride(null));
+    setIsOverridden(false);
+    setPing(null);
+  };
+
+  const check = async () => {
+    setChecking(true);
+    try {
+      setPing(await pingBackend(url.trim().replace(/\/+$/, "")));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <ScrollView contentContainerStyle={styles.container} keyboardShouldPersistTaps="handled">
+      <Text style={label}>Build profile</Text>
+      <Text style={styles.value}>{config.profile}</Text>
+
+      <Text style={label}>Supabase project</Text>
+      <Text style={styles.value}>{config.supabaseUrl}</Text>
+
+      <Text style={label}>
+        Analyze base URL {isOverridden ? "(overridden)" : "(profile default)"}
+      </Text>
+      <TextInput
+        style={[
+          styles.input,
+          { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+        ]}
+        value={url}
+        onChangeText={setUrl}
+        autoCapitalize="none"
+        autoCorrect={false}
+        keyboardType="url"
+        placeholder={config.apiBaseUrl}
+        placeholderTextColor={colors.textMuted}
+      />
+
+      <View style={styles.row}>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.primary }]}
+          onPress={save}
+        >
+          <Text style={[styles.buttonText, { color: colors.onPrimary }]}>Save</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.secondary }]}
+          onPress={reset}
+        >
+          <Text style={[styles.buttonText, { color: colors.onPrimary }]}>Reset</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, { backgroundColor: colors.secondary }]}
+          onPress={check}
+          disabled={checking}
+        >
+          <Text style={[styles.buttonText, { color: colors.onPrimary }]}>Check</Text>
+        </TouchableOpacity>
+      </View>
+
+      {checking && <ActivityIndicator style={{ marginTop: 12 }} color={colors.text} />}
+      {ping && !checking && (
+        <Text style={[styles.ping, { color: ping.ok ? colors.success : colors.violation }]}>
+          {ping.ok
+            ? `✅ Reachable (HTTP ${ping.status}, ${ping.ms} ms)`
+            : `⛔ Unreachable: ${ping.error} (${ping.ms} ms)`}
+        </Text>
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { padding: 16 },
+  label: { fontSize: 13, marginTop: 14, marginBottom: 4 },
+  value: { fontSize: 15 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+    fontSize: 15,
+  },
+  row: { flexDirection: "row", marginTop: 12 },
+  button: {
+    paddingVertical: 10,
+    paddingHorizontal: 18,
+    borderRadius: 8,
+    marginRight: 8,
+  },
+  buttonText: { fontWeight: "600" },
+  ping: { marginTop: 12, fontSize: 15 },
+});
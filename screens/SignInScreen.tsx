@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Link, useRouter } from "expo-router";
+
+import { LanguageSwitcher } from "../components/LanguageSwitcher";
+import { Text, useThemeColors } from "../components/Themed";
+import { t, useLocale } from "../utils/i18n";
+import { supabase } from "../utils/supabase";
+
+type Mode = "password" | "code";
+
+export default function SignInScreen() {
+  const [mode, setMode] = useState<Mode>("password");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const router = useRouter();
+  const colors = useThemeColors();
+  useLocale();
+  const input = [
+    styles.input,
+    { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+  ];
+
+  // The root layout redirects as soon as a session shows up, so success needs
+  // no handling here.
+  const run = async (action: () => Promise<{ error: { message: string } | null }>) => {
+    setBusy(true);
+    setError(null);
+    setInfo(null);
+    try {
+      const { error: authError } = await action();
+      if (authError) setError(authError.message);
+      return !authError;
+    } catch (err: any) {
+      setError(err?.message ?? t("auth.failed"));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const signInWithPassword = () =>
+    run(() => supabase.auth.signInWithPassword({ email: email.trim(), password }));
+
+  const sendCode = async () => {
+    const ok = await run(() => supabase.auth.signInWithOtp({ email: email.trim() }));
+    if (ok) {
+      setCodeSent(true);
+      setInfo(t("auth.codeSent", { email: email.trim() }));
+    }
+  };
+
+  const verifyCode = () =>
+    run(() => supabase.auth.verifyOtp({ email: email.trim(), token: code.trim(), type: "email" }));
+
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setCodeSent(false);
+    setCode("");
+    setError(null);
+    setInfo(null);
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <View style={styles.language}>
+        <LanguageSwitcher color={colors.text} />
+      </View>
+      {/* Long-press opens the hidden developer settings, like the Camera title. */}
+      <Text style={styles.title} onLongPress={() => router.push("/settings")}>
+        📸 Ad Violation
+      </Text>
+      <Text style={[styles.subtitle, { color: colors.textMuted }]}>
+        {t("auth.subtitle")}
+      </Text>
+
+      <View style={[styles.tabs, { backgroundColor: colors.surfaceMuted }]}>
+        {(["password", "code"] as Mode[]).map((m) => (
+          <TouchableOpacity
+            key={m}
+            style={[styles.tab, mode === m && { backgroundColor: colors.primary }]}
+            onPress={() => switchMode(m)}
+          >
+            <Text style={[styles.tabText, mode === m && { color: colors.onPrimary }]}>
+              {m === "password" ? t("auth.password") : t("auth.emailCode")}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <TextInput
+        style={input}
+        placeholderTextColor={colors.textMuted}
+        placeholder={t("auth.email")}
+        value={email}
+        onChangeText={setEmail}
+        autoCapitalize="none"
+        autoComplete="email"
+        keyboardType="email-address"
+        editable={!codeSent}
+      />
+
+      {mode === "password" && (
+        <TextInput
+          style={input}
+          placeholderTextColor={colors.textMuted}
+          placeholder={t("auth.password")}
+          value={password}
+          onChangeText={setPassword}
+          secureTextEntry
+          autoComplete="password"
+        />
+      )}
+
+      {mode === "code" && codeSent && (
+        <TextInput
+          style={input}
+          placeholderTextColor={colors.textMuted}
+          placeholder={t("auth.code")}
+          value={code}
+          onChangeText={setCode}
+          keyboardType="number-pad"
+          autoComplete="one-time-code"
+          maxLength={6}
+        />
+      )}
+
+      {error && <Text style={[styles.message, { color: colors.violation }]}>{error}</Text>}
+      {info && <Text style={[styles.message, { color: colors.success }]}>{info}</Text>}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: busy ? colors.secondary : colors.primary }]}
+        disabled={busy}
+        onPress={mode === "password" ? signInWithPassword : codeSent ? verifyCode : sendCode}
+      >
+        {busy ? (
+          <ActivityIndicator color={colors.onPrimary} />
+        ) : (
+          <Text style={[styles.buttonText, { color: colors.onPrimary }]}>
+            {mode === "password"
+              ? t("auth.signIn")
+              : codeSent
+              ? t("auth.verifyCode")
+              : t("auth.sendCode")}
+          </Text>
+        )}
+      </TouchableOpacity>
+
+      {mode === "code" && codeSent && (
+        <TouchableOpacity onPress={() => switchMode("code")}>
+          <Text style={[styles.link, { color: colors.primary }]}>{t("auth.otherEmail")}</Text>
+        </TouchableOpacity>
+      )}
+
+      <Link href="/sign-up" style={[styles.link, { color: colors.primary }]}>
+        {t("auth.toSignUp")}
+      </Link>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, justifyContent: "center", padding: 24 },
+  language: { position: "absolute", top: 56, right: 8 },
+  title: { fontSize: 28, fontWeight: "bold", textAlign: "center" },
+  subtitle: { fontSize: 15, textAlign: "center", marginTop: 6, marginBottom: 24 },
+  tabs: { flexDirection: "row", marginBottom: 16, borderRadius: 10 },
+  tab: { flex: 1, paddingVertical: 10, borderRadius: 10, alignItems: "center" },
+  tabText: { fontWeight: "600" },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  message: { marginBottom: 10 },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonText: { fontWeight: "bold", fontSize: 16 },
+  link: { textAlign: "center", marginTop: 18, fontSize: 15 },
+});
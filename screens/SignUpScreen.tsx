@@ -0,0 +1,142 @@
+import React, { useState } from "react";
+import {
+  ActivityIndicator,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  TextInput,
+  TouchableOpacity,
+  View,
+} from "react-native";
+import { Link } from "expo-router";
+
+import { LanguageSwitcher } from "../components/LanguageSwitcher";
+import { Text, useThemeColors } from "../components/Themed";
+import { t, useLocale } from "../utils/i18n";
+import { supabase } from "../utils/supabase";
+
+const MIN_PASSWORD_LENGTH = 6;
+
+export default function SignUpScreen() {
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [confirm, setConfirm] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+  const colors = useThemeColors();
+  useLocale();
+  const input = [
+    styles.input,
+    { borderColor: colors.border, backgroundColor: colors.surface, color: colors.text },
+  ];
+
+  const signUp = async () => {
+    setError(null);
+    setInfo(null);
+    if (password.length < MIN_PASSWORD_LENGTH) {
+      setError(t("auth.passwordTooShort", { count: MIN_PASSWORD_LENGTH }));
+      return;
+    }
+    if (password !== confirm) {
+      setError(t("auth.passwordMismatch"));
+      return;
+    }
+
+    setBusy(true);
+    try {
+      const { data, error: authError } = await supabase.auth.signUp({
+        email: email.trim(),
+        password,
+      });
+      if (authError) setError(authError.message);
+      // With email confirmation enabled there is no session until the link is opened.
+      else if (!data.session) setInfo(t("auth.confirmEmail"));
+    } catch (err: any) {
+      setError(err?.message ?? t("auth.failed"));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === "ios" ? "padding" : undefined}
+    >
+      <View style={styles.language}>
+        <LanguageSwitcher color={colors.text} />
+      </View>
+      <Text style={styles.title}>{t("auth.createAccount")}</Text>
+
+      <TextInput
+        style={input}
+        placeholderTextColor={colors.textMuted}
+        placeholder={t("auth.email")}
+        value={email}
+        onChangeText={setEmail}
+        autoCapitalize="none"
+        autoComplete="email"
+        keyboardType="email-address"
+      />
+      <TextInput
+        style={input}
+        placeholderTextColor={colors.textMuted}
+        placeholder={t("auth.password")}
+        value={password}
+        onChangeText={setPassword}
+        secureTextEntry
+        autoComplete="password-new"
+      />
+      <TextInput
+        style={input}
+        placeholderTextColor={colors.textMuted}
+        placeholder={t("auth.confirmPassword")}
+        value={confirm}
+        onChangeText={setConfirm}
+        secureTextEntry
+      />
+
+      {error && <Text style={[styles.message, { color: colors.violation }]}>{error}</Text>}
+      {info && <Text style={[styles.message, { color: colors.success }]}>{info}</Text>}
+
+      <TouchableOpacity
+        style={[styles.button, { backgroundColor: busy ? colors.secondary : colors.primary }]}
+        disabled={busy}
+        onPress={signUp}
+      >
+        {busy ? (
+          <ActivityIndicator color={colors.onPrimary} />
+        ) : (
+          <Text style={[styles.buttonText, { color: colors.onPrimary }]}>{t("auth.signUp")}</Text>
+        )}
+      </TouchableOpacity>
+
+      <Link href="/sign-in" style={[styles.link, { color: colors.primary }]}>
+        {t("auth.toSignIn")}
+      </Link>
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: { flex: 1, justifyContent: "center", padding: 24 },
+  language: { position: "absolute", top: 56, right: 8 },
+  title: { fontSize: 26, fontWeight: "bold", textAlign: "center", marginBottom: 24 },
+  input: {
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  message: { marginBottom: 10 },
+  button: {
+    paddingVertical: 14,
+    borderRadius: 10,
+    alignItems: "center",
+  },
+  buttonText: { fontWeight: "bold", fontSize: 16 },
+  link: { textAlign: "center", marginTop: 18, fontSize: 15 },
+});
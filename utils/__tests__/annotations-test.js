@@ -0,0 +1,71 @@
+import { boxFromDrag, EMPTY_ANNOTATIONS, hasAnnotations, withoutPhoto } from '../annotations';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+
+const size = { width: 200, height: 400 };
+
+describe('boxFromDrag', () => {
+  it('normalizes a drag to fractions of the photo', () => {
+    expect(boxFromDrag({ x: 20, y: 40 }, { x: 120, y: 240 }, size)).toEqual({
+      x: 0.1,
+      y: 0.1,
+      width: 0.5,
+      height: 0.5,
+    });
+  });
+
+  it('handles drags made up and to the left', () => {
+    expect(boxFromDrag({ x: 120, y: 240 }, { x: 20, y: 40 }, size)).toEqual(
+      boxFromDrag({ x: 20, y: 40 }, { x: 120, y: 240 }, size)
+    );
+  });
+
+  it('clamps drags that leave the photo', () => {
+    const box = boxFromDrag({ x: 100, y: 200 }, { x: 300, y: -50 }, size);
+    expect(box).toEqual({ x: 0.5, y: 0, width: 0.5, height: 0.5 });
+  });
+
+  it('ignores taps and an unmeasured view', () => {
+    expect(boxFromDrag({ x: 50, y: 50 }, { x: 52, y: 51 }, size)).toBeNull();
+    expect(boxFromDrag({ x: 0, y: 0 }, { x: 50, y: 50 }, { width: 0, height: 0 })).toBeNull();
+  });
+});
+
+describe('hasAnnotations', () => {
+  it('is false for missing or untouched annotations', () => {
+    expect(hasAnnotations(null)).toBe(false);
+    expect(hasAnnotations(EMPTY_ANNOTATIONS)).toBe(false);
+    expect(hasAnnotations({ ...EMPTY_ANNOTATIONS, note: '   ' })).toBe(false);
+  });
+
+  it('is true once anything was filled in', () => {
+    expect(hasAnnotations({ ...EMPTY_ANNOTATIONS, categories: ['oversized'] })).toBe(true);
+    expect(hasAnnotations({ ...EMPTY_ANNOTATIONS, note: 'Blocks the footpath' })).toBe(true);
+  });
+});
+
+describe('withoutPhoto', () => {
+  const box = { x: 0.1, y: 0.1, width: 0.5, height: 0.5 };
+  const marked = {
+    photoIndex: 1,
+    box,
+    categories: ['oversized'],
+    note: 'Blocks the footpath',
+    hoardingType: 'illuminated',
+  };
+
+  it('drops only the box when its photo is removed', () => {
+    expect(withoutPhoto(marked, 1)).toEqual({ ...marked, photoIndex: 0, box: null });
+  });
+
+  it('moves the box along when an earlier photo is removed', () => {
+    expect(withoutPhoto(marked, 0)).toEqual({ ...marked, photoIndex: 0 });
+  });
+
+  it('leaves everything when a later photo is removed', () => {
+    expect(withoutPhoto(marked, 2)).toBe(marked);
+  });
+});
@@ -0,0 +1,74 @@
+import {
+  laplacianVariance,
+  MAX_TILT_DEG,
+  meanBrightness,
+  MIN_BRIGHTNESS,
+  MIN_SHARPNESS,
+  qualityIssues,
+  tiltFromGravity,
+  toGray,
+} from '../captureQuality';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-sensors', () => ({ Accelerometer: {} }));
+
+const W = 16;
+const H = 16;
+
+function image(pixel) {
+  const rgba = new Uint8Array(W * H * 4);
+  for (let y = 0; y < H; y++) {
+    for (let x = 0; x < W; x++) {
+      const v = pixel(x, y);
+      rgba.set([v, v, v, 255], (y * W + x) * 4);
+    }
+  }
+  return toGray(rgba, W, H);
+}
+
+describe('image metrics', () => {
+  it('finds no edges in a flat image and many in a checkerboard', () => {
+    const flat = image(() => 128);
+    const checker = image((x, y) => ((x + y) % 2 ? 255 : 0));
+    expect(laplacianVariance(flat, W, H)).toBe(0);
+    expect(laplacianVariance(checker, W, H)).toBeGreaterThan(MIN_SHARPNESS);
+  });
+
+  it('averages brightness', () => {
+    expect(meanBrightness(image(() => 20))).toBeCloseTo(20, 0);
+    expect(meanBrightness(image((x) => (x < W / 2 ? 0 : 200)))).toBeCloseTo(100, 0);
+  });
+});
+
+describe('tiltFromGravity', () => {
+  it('is zero when the phone is held upright or sideways', () => {
+    expect(tiltFromGravity({ x: 0, y: -1 })).toBeCloseTo(0);
+    expect(tiltFromGravity({ x: 1, y: 0 })).toBeCloseTo(0);
+  });
+
+  it('measures roll away from the nearest level edge', () => {
+    const rad = (15 * Math.PI) / 180;
+    expect(Math.abs(tiltFromGravity({ x: Math.sin(rad), y: Math.cos(rad) }))).toBeCloseTo(15);
+  });
+
+  it('gives up when the phone points up or down', () => {
+    expect(tiltFromGravity({ x: 0.1, y: 0.1 })).toBeNull();
+  });
+});
+
+describe('qualityIssues', () => {
+  const good = { sharpness: MIN_SHARPNESS * 2, brightness: MIN_BRIGHTNESS * 2, tiltDeg: 0 };
+
+  it('passes a sharp, bright, level photo', () => {
+    expect(qualityIssues(good)).toEqual([]);
+    expect(qualityIssues({ ...good, tiltDeg: null })).toEqual([]);
+  });
+
+  it('names every problem it finds', () => {
+    expect(
+      qualityIssues({ sharpness: 1, brightness: 10, tiltDeg: -(MAX_TILT_DEG + 5) })
+    ).toEqual(['blurry', 'dark', 'tilted']);
+  });
+});
@@ -0,0 +1,121 @@
+import { dHash, findDuplicates, hammingDistance } from '../duplicates';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+const NOW = Date.parse('2024-05-20T12:00:00Z');
+const here = { latitude: 20.2961, longitude: 85.8245 };
+
+// ~11 m per 0.0001° of latitude.
+function report(id, overrides = {}) {
+  return {
+    id,
+    user_id: 'u1',
+    image_url: null,
+    lat: here.latitude,
+    lon: here.longitude,
+    address: null,
+    status: 'violation',
+    message: null,
+    created_at: '2024-05-19T12:00:00Z',
+    qr_value: null,
+    capture: null,
+    ...overrides,
+  };
+}
+
+const probe = (overrides = {}) => ({ coords: here, qrValue: null, phash: [], ...overrides });
+
+// 9x8 RGBA image whose brightness follows `level(x, y)`.
+function image(level) {
+  const data = new Uint8Array(9 * 8 * 4);
+  for (let y = 0; y < 8; y++) {
+    for (let x = 0; x < 9; x++) {
+      const i = (y * 9 + x) * 4;
+      data[i] = data[i + 1] = data[i + 2] = level(x, y);
+      data[i + 3] = 255;
+    }
+  }
+  return data;
+}
+
+describe('dHash', () => {
+  it('sets a bit wherever a pixel is brighter than its right neighbour', () => {
+    expect(dHash(image((x) => 255 - x * 20), 9, 8)).toBe('ffffffffffffffff');
+    expect(dHash(image((x) => x * 20), 9, 8)).toBe('0000000000000000');
+  });
+
+  it('ignores uniform brightness changes', () => {
+    const a = dHash(image((x, y) => (x * 37 + y * 11) % 200), 9, 8);
+    const b = dHash(image((x, y) => ((x * 37 + y * 11) % 200) + 40), 9, 8);
+    expect(a).toBe(b);
+  });
+
+  it('rejects images of the wrong size', () => {
+    expect(dHash(new Uint8Array(16 * 4), 4, 4)).toBeNull();
+  });
+});
+
+describe('hammingDistance', () => {
+  it('counts differing bits', () => {
+    expect(hammingDistance('00ff', '00ff')).toBe(0);
+    expect(hammingDistance('0001', '0003')).toBe(1);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+  });
+});
+
+describe('findDuplicates', () => {
+  it('matches recent reports within the radius', () => {
+    const matches = findDuplicates(
+      probe(),
+      [report('close', { lat: here.latitude + 0.0002 }), report('far', { lat: here.latitude + 0.01 })],
+      { now: NOW }
+    );
+    expect(matches.map((m) => m.report.id)).toEqual(['close']);
+    expect(matches[0].reasons).toEqual(['nearby']);
+    expect(matches[0].distanceM).toBeCloseTo(22, 0);
+  });
+
+  it('skips reports older than the window', () => {
+    expect(
+      findDuplicates(probe(), [report('old', { created_at: '2024-04-01T00:00:00Z' })], { now: NOW })
+    ).toEqual([]);
+  });
+
+  it('matches the same QR wherever it was filed', () => {
+    const matches = findDuplicates(
+      probe({ qrValue: 'BBL1.abc' }),
+      [report('moved', { lat: here.latitude + 0.01, qr_value: 'BBL1.abc' })],
+      { now: NOW }
+    );
+    expect(matches[0].reasons).toEqual(['same-qr']);
+  });
+
+  it('never matches a different QR, however close', () => {
+    expect(
+      findDuplicates(probe({ qrValue: 'BBL1.abc' }), [report('other', { qr_value: 'BBL1.xyz' })], {
+        now: NOW,
+      })
+    ).toEqual([]);
+  });
+
+  it('ranks look-alike photos first', () => {
+    const hash = 'f0f0f0f0f0f0f0f0';
+    const matches = findDuplicates(
+      probe({ phash: [null, hash] }),
+      [
+        report('nearest', { lat: here.latitude + 0.00005 }),
+        report('same-photo', {
+          lat: here.latitude + 0.0003,
+          capture: { phash: ['f0f0f0f0f0f0f0f1'] },
+        }),
+        report('different-photo', { capture: { phash: ['0f0f0f0f0f0f0f0f'] } }),
+      ],
+      { now: NOW }
+    );
+    expect(matches.map((m) => m.report.id)).toEqual(['same-photo', 'different-photo', 'nearest']);
+    expect(matches[0].reasons).toEqual(['nearby', 'similar-photo']);
+  });
+});
@@ -0,0 +1,115 @@
+import { csvField, reportsToCsv, reportsToGeoJson, reportsToHtml } from '../exportReports';
+import { setLocale } from '../i18n';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+function report(id, overrides = {}) {
+  return {
+    id,
+    user_id: 'u1',
+    image_url: `https://cdn.example/${id}/0.jpg`,
+    image_urls: [`https://cdn.example/${id}/0.jpg`, `https://cdn.example/${id}/1.jpg`],
+    lat: 20.2961,
+    lon: 85.8245,
+    address: 'Janpath, Bhubaneswar',
+    status: 'violation',
+    message: 'QR missing',
+    created_at: '2024-05-20T12:00:00Z',
+    qr_value: null,
+    ...overrides,
+  };
+}
+
+describe('csvField', () => {
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(csvField('plain')).toBe('plain');
+    expect(csvField('a, b')).toBe('"a, b"');
+    expect(csvField('say "hi"')).toBe('"say ""hi"""');
+    expect(csvField('two\nlines')).toBe('"two\nlines"');
+  });
+
+  it('keeps text that looks like a formula from running in a spreadsheet', () => {
+    expect(csvField('=HYPERLINK("http://evil.example")')).toBe('"\'=HYPERLINK(""http://evil.example"")"');
+    expect(csvField('+91 98765')).toBe("'+91 98765");
+    expect(csvField('-1')).toBe("'-1");
+    expect(csvField('@SUM(A1)')).toBe("'@SUM(A1)");
+  });
+
+  it('leaves negative numbers as numbers', () => {
+    expect(csvField(-33.86)).toBe('-33.86');
+  });
+
+  it('leaves missing values empty', () => {
+    expect(csvField(null)).toBe('');
+    expect(csvField(undefined)).toBe('');
+    expect(csvField(0)).toBe('0');
+  });
+});
+
+describe('reportsToCsv', () => {
+  it('writes a header and one row per report', () => {
+    const lines = reportsToCsv([report('r1'), report('r2', { lat: null, lon: null })])
+      .trimEnd()
+      .split('\r\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toBe(
+      'id,created_at,status,review_status,result,message,address,lat,lon,zone_id,qr_value,user_id,photo_urls'
+    );
+    expect(lines[1]).toBe(
+      'r1,2024-05-20T12:00:00Z,violation,,violation,QR missing,"Janpath, Bhubaneswar",20.2961,85.8245,,,u1,' +
+        'https://cdn.example/r1/0.jpg https://cdn.example/r1/1.jpg'
+    );
+    expect(lines[2]).toContain('"Janpath, Bhubaneswar",,,');
+  });
+});
+
+describe('reportsToGeoJson', () => {
+  it('turns each located report into a Point feature', () => {
+    const geo = reportsToGeoJson([report('r1'), report('r2', { lat: null, lon: null })]);
+    expect(geo.type).toBe('FeatureCollection');
+    expect(geo.features).toHaveLength(1);
+    const [feature] = geo.features;
+    expect(feature.geometry).toEqual({ type: 'Point', coordinates: [85.8245, 20.2961] });
+    expect(feature.properties).toMatchObject({
+      id: 'r1',
+      status: 'violation',
+      message: 'QR missing',
+      address: 'Janpath, Bhubaneswar',
+    });
+  });
+});
+
+describe('reportsToHtml', () => {
+  it('embeds photos through photoSrc and escapes report text', () => {
+    const html = reportsToHtml(
+      [report('r1', { address: '<b>Main & 2nd</b>' })],
+      (url) => `data:${url}`
+    );
+    expect(html).toContain('<img src="data:https://cdn.example/r1/0.jpg" />');
+    expect(html).toContain('<img src="data:https://cdn.example/r1/1.jpg" />');
+    expect(html).toContain('Address: &lt;b&gt;Main &amp; 2nd&lt;/b&gt;');
+    expect(html).not.toContain('<b>Main');
+  });
+
+  it('keeps labels in English whatever the app language', async () => {
+    await setLocale('hi');
+    try {
+      const annotations = {
+        photoIndex: 0,
+        box: null,
+        categories: ['oversized'],
+        note: '',
+        hoardingType: null,
+      };
+      const html = reportsToHtml([report('r1', { message: 'Missing QR', annotations })]);
+      expect(html).toContain('Status: 🚫 Violation Detected');
+      expect(html).toContain('Inspector: 📏 Oversized');
+    } finally {
+      await setLocale(null);
+    }
+  });
+});
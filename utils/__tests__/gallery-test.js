@@ -0,0 +1,98 @@
+import { dmsToDegrees, exifCoords, exifTakenAt, importedFix } from '../gallery';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-image-picker', () => ({}));
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+describe('dmsToDegrees', () => {
+  it('passes decimal degrees through', () => {
+    expect(dmsToDegrees(20.2961)).toBeCloseTo(20.2961, 6);
+  });
+
+  it('reads degree/minute/second arrays', () => {
+    expect(dmsToDegrees([20, 17, 46])).toBeCloseTo(20.29611, 4);
+  });
+
+  it('reads rational strings', () => {
+    expect(dmsToDegrees('85/1,49/1,2820/100')).toBeCloseTo(85.82450, 4);
+  });
+
+  it('rejects anything else', () => {
+    expect(dmsToDegrees(undefined)).toBeNull();
+    expect(dmsToDegrees('north')).toBeNull();
+  });
+});
+
+describe('exifCoords', () => {
+  it('reads Android flat tags', () => {
+    expect(
+      exifCoords({ GPSLatitude: 20.2961, GPSLatitudeRef: 'N', GPSLongitude: 85.8245, GPSLongitudeRef: 'E' })
+    ).toEqual({ latitude: 20.2961, longitude: 85.8245 });
+  });
+
+  it('reads the iOS {GPS} dictionary', () => {
+    const coords = exifCoords({ '{GPS}': { Latitude: 20.2961, LatitudeRef: 'N', Longitude: 85.8245, LongitudeRef: 'E' } });
+    expect(coords).toEqual({ latitude: 20.2961, longitude: 85.8245 });
+  });
+
+  it('applies south and west references', () => {
+    expect(
+      exifCoords({ GPSLatitude: 33.86, GPSLatitudeRef: 'S', GPSLongitude: 70.5, GPSLongitudeRef: 'W' })
+    ).toEqual({ latitude: -33.86, longitude: -70.5 });
+  });
+
+  it('treats missing, null-island and out-of-range positions as no location', () => {
+    expect(exifCoords(null)).toBeNull();
+    expect(exifCoords({ DateTimeOriginal: '2024:05:01 10:00:00' })).toBeNull();
+    expect(exifCoords({ GPSLatitude: 0, GPSLongitude: 0 })).toBeNull();
+    expect(exifCoords({ GPSLatitude: 120, GPSLongitude: 10 })).toBeNull();
+  });
+});
+
+describe('exifTakenAt', () => {
+  it('uses the offset tag when present', () => {
+    expect(
+      exifTakenAt({ DateTimeOriginal: '2024:05:01 10:30:00', OffsetTimeOriginal: '+05:30' })
+    ).toBe('2024-05-01T05:00:00.000Z');
+  });
+
+  it('falls back to the phone time zone', () => {
+    expect(exifTakenAt({ '{Exif}': { DateTimeOriginal: '2024:05:01 10:30:00' } })).toBe(
+      new Date(2024, 4, 1, 10, 30, 0).toISOString()
+    );
+  });
+
+  it('returns null without a usable time', () => {
+    expect(exifTakenAt({})).toBeNull();
+    expect(exifTakenAt({ DateTimeOriginal: 'yesterday' })).toBeNull();
+  });
+});
+
+describe('importedFix', () => {
+  const coords = { latitude: 20.2961, longitude: 85.8245 };
+
+  it('takes accuracy, altitude and heading from EXIF when written', () => {
+    const fix = importedFix(coords, {
+      exif: { GPSHPositioningError: 8, GPSAltitude: 45, GPSImgDirection: 270 },
+      takenAt: '2024-05-01T05:00:00.000Z',
+    });
+    expect(fix).toMatchObject({
+      ...coords,
+      accuracyM: 8,
+      altitudeM: 45,
+      headingDeg: 270,
+      mocked: false,
+      fixAt: '2024-05-01T05:00:00.000Z',
+    });
+  });
+
+  it('leaves accuracy and time unknown for a placed pin', () => {
+    const fix = importedFix(coords);
+    expect(fix.accuracyM).toBeNull();
+    expect(fix.altitudeM).toBeNull();
+    expect(fix.fixAt).toBeNull();
+  });
+});
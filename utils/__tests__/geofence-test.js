@@ -0,0 +1,77 @@
+import { checkGeofence, distanceToPolygonMeters, pointInPolygon } from '../geofence';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+// ~1.1 km square around Bhubaneswar's Master Canteen square.
+const square = [
+  { lat: 20.27, lon: 85.83 },
+  { lat: 20.27, lon: 85.84 },
+  { lat: 20.28, lon: 85.84 },
+  { lat: 20.28, lon: 85.83 },
+];
+
+const zones = [
+  { id: 'ward-1', name: 'Ward 1', kind: 'allowed', polygon: square },
+  {
+    id: 'school-1',
+    name: 'DAV School',
+    kind: 'school-buffer',
+    bufferM: 200,
+    polygon: [
+      { lat: 20.272, lon: 85.832 },
+      { lat: 20.272, lon: 85.833 },
+      { lat: 20.273, lon: 85.833 },
+      { lat: 20.273, lon: 85.832 },
+    ],
+  },
+  { id: 'station', name: 'Station Square', kind: 'prohibited', center: { lat: 20.279, lon: 85.839 }, radiusM: 50 },
+];
+
+describe('pointInPolygon', () => {
+  it('detects points inside and outside a ring', () => {
+    expect(pointInPolygon({ lat: 20.275, lon: 85.835 }, square)).toBe(true);
+    expect(pointInPolygon({ lat: 20.285, lon: 85.835 }, square)).toBe(false);
+  });
+});
+
+describe('distanceToPolygonMeters', () => {
+  it('measures to the nearest edge', () => {
+    // 0.001° of latitude is roughly 111 m.
+    const d = distanceToPolygonMeters({ lat: 20.281, lon: 85.835 }, square);
+    expect(d).toBeGreaterThan(105);
+    expect(d).toBeLessThan(117);
+  });
+});
+
+describe('checkGeofence', () => {
+  it('returns the matching allowed zone', () => {
+    expect(checkGeofence({ latitude: 20.277, longitude: 85.836 }, zones)).toEqual({ ok: true, zoneId: 'ward-1' });
+  });
+
+  it('prefers a school buffer over the enclosing allowed zone', () => {
+    // About 110 m north of the school polygon, inside its 200 m buffer.
+    expect(checkGeofence({ latitude: 20.274, longitude: 85.8325 }, zones)).toEqual({
+      ok: false,
+      zoneId: 'school-1',
+      reason: 'Within school buffer zone',
+    });
+  });
+
+  it('flags circular prohibited zones', () => {
+    expect(checkGeofence({ latitude: 20.279, longitude: 85.839 }, zones)).toMatchObject({
+      ok: false,
+      zoneId: 'station',
+    });
+  });
+
+  it('reports points outside every zone as out of zone', () => {
+    expect(checkGeofence({ latitude: 20.3, longitude: 85.9 }, zones)).toEqual({
+      ok: false,
+      zoneId: null,
+      reason: 'Out of allowed zone',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Localization from 'expo-localization';
+
+import hi from '../../constants/locales/hi';
+import or from '../../constants/locales/or';
+import en from '../../constants/locales/en';
+import { detectLocale, getLocale, loadLocale, setLocale, t } from '../i18n';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: jest.fn(() => [{ languageCode: 'en' }]) }));
+
+afterEach(async () => {
+  Localization.getLocales.mockReturnValue([{ languageCode: 'en' }]);
+  await setLocale(null);
+});
+
+describe('catalogs', () => {
+  it.each([
+    ['hi', hi],
+    ['or', or],
+  ])('%s defines every English key', (_, catalog) => {
+    expect(Object.keys(catalog).sort()).toEqual(Object.keys(en).sort());
+  });
+});
+
+describe('t', () => {
+  it('fills in placeholders', () => {
+    expect(t('camera.addShot', { count: 2, max: 5 })).toBe('Add (2/5)');
+  });
+
+  it('leaves unknown placeholders alone', () => {
+    expect(t('camera.addShot', { count: 2 })).toBe('Add (2/{max})');
+  });
+
+  it('follows the selected language', async () => {
+    await setLocale('or');
+    expect(t('tabs.reports')).toBe(or['tabs.reports']);
+  });
+});
+
+describe('detectLocale', () => {
+  it('picks the first device language with a catalog', () => {
+    Localization.getLocales.mockReturnValue([{ languageCode: 'ta' }, { languageCode: 'hi' }]);
+    expect(detectLocale()).toBe('hi');
+  });
+
+  it('falls back to English', () => {
+    Localization.getLocales.mockReturnValue([{ languageCode: 'fr' }]);
+    expect(detectLocale()).toBe('en');
+  });
+});
+
+describe('setLocale / loadLocale', () => {
+  it('persists the choice and restores it', async () => {
+    await setLocale('hi');
+    expect(await AsyncStorage.getItem('locale:v1')).toBe('hi');
+    expect(await loadLocale()).toBe('hi');
+  });
+
+  it('goes back to the device language when cleared', async () => {
+    Localization.getLocales.mockReturnValue([{ languageCode: 'or' }]);
+    await setLocale('hi');
+    await setLocale(null);
+    expect(getLocale()).toBe('or');
+    expect(await AsyncStorage.getItem('locale:v1')).toBeNull();
+  });
+});
@@ -0,0 +1,33 @@
+import { checkLocationFix, MAX_ACCURACY_M } from '../integrity';
+
+const fix = {
+  latitude: 20.2961,
+  longitude: 85.8245,
+  accuracyM: 8,
+  altitudeM: 45,
+  altitudeAccuracyM: 3,
+  headingDeg: 120,
+  mocked: false,
+  fixAt: '2025-06-01T10:00:00.000Z',
+};
+
+describe('checkLocationFix', () => {
+  it('accepts an accurate, real fix', () => {
+    expect(checkLocationFix(fix)).toEqual({ ok: true });
+    expect(checkLocationFix({ ...fix, accuracyM: MAX_ACCURACY_M })).toEqual({ ok: true });
+  });
+
+  it('refuses mocked locations even when they look accurate', () => {
+    expect(checkLocationFix({ ...fix, mocked: true })).toMatchObject({ ok: false, reason: 'mocked' });
+  });
+
+  it('flags fixes worse than the threshold or without an accuracy', () => {
+    expect(checkLocationFix({ ...fix, accuracyM: 120 })).toEqual({
+      ok: false,
+      reason: 'low-accuracy',
+      message: `GPS accuracy is ±120 m (needs ±${MAX_ACCURACY_M} m or better)`,
+    });
+    expect(checkLocationFix({ ...fix, accuracyM: null })).toMatchObject({ reason: 'low-accuracy' });
+    expect(checkLocationFix({ ...fix, accuracyM: 30 }, 20)).toMatchObject({ reason: 'low-accuracy' });
+  });
+});
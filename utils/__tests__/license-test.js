@@ -0,0 +1,72 @@
+import nacl from 'tweetnacl';
+
+import { checkLicenseQr } from '../license';
+
+const keys = nacl.sign.keyPair();
+const publicKeys = [Buffer.from(keys.publicKey).toString('base64')];
+const now = new Date('2025-06-01T10:00:00');
+
+const b64url = (bytes) => Buffer.from(bytes).toString('base64url');
+
+function makeQr(payload, secretKey = keys.secretKey) {
+  const body = `BBL1.${b64url(Buffer.from(JSON.stringify(payload), 'utf8'))}`;
+  return `${body}.${b64url(nacl.sign.detached(Buffer.from(body), secretKey))}`;
+}
+
+const payload = { lic: 'BBSR/2024/00123', agency: 'Kalinga Ads', size: '6x3', exp: '2025-12-31' };
+
+describe('checkLicenseQr', () => {
+  it('accepts a correctly signed, unexpired license', () => {
+    expect(checkLicenseQr(makeQr(payload), { publicKeys, now })).toEqual({
+      status: 'valid',
+      license: {
+        number: 'BBSR/2024/00123',
+        agency: 'Kalinga Ads',
+        size: { widthM: 6, heightM: 3 },
+        expiresOn: '2025-12-31',
+      },
+    });
+  });
+
+  it('decodes non-ASCII agency names', () => {
+    const check = checkLicenseQr(makeQr({ ...payload, agency: 'ଓଡ଼ିଆ Ads' }), { publicKeys, now });
+    expect(check.status).toBe('valid');
+    expect(check.license.agency).toBe('ଓଡ଼ିଆ Ads');
+  });
+
+  it('stays valid through the expiry day and flags it the day after', () => {
+    const qr = makeQr({ ...payload, exp: '2025-06-01' });
+    expect(checkLicenseQr(qr, { publicKeys, now }).status).toBe('valid');
+    expect(checkLicenseQr(qr, { publicKeys, now: new Date('2025-06-02T00:01:00') }).status).toBe(
+      'expired'
+    );
+  });
+
+  it('flags licenses signed by another key as forged', () => {
+    const other = nacl.sign.keyPair();
+    expect(checkLicenseQr(makeQr(payload, other.secretKey), { publicKeys, now }).status).toBe(
+      'forged'
+    );
+  });
+
+  it('flags a tampered payload as forged', () => {
+    const [prefix, , signature] = makeQr(payload).split('.');
+    const tampered = b64url(Buffer.from(JSON.stringify({ ...payload, exp: '2030-01-01' })));
+    const check = checkLicenseQr(`${prefix}.${tampered}.${signature}`, { publicKeys, now });
+    expect(check.status).toBe('forged');
+    expect(check.license.expiresOn).toBe('2030-01-01');
+  });
+
+  it('reports unreadable license QRs as malformed', () => {
+    expect(checkLicenseQr('BBL1.abc', { publicKeys, now }).status).toBe('malformed');
+    expect(checkLicenseQr('BBL1.!!!!.abc', { publicKeys, now }).status).toBe('malformed');
+    const noExpiry = makeQr({ lic: 'X1' });
+    expect(checkLicenseQr(noExpiry, { publicKeys, now }).status).toBe('malformed');
+  });
+
+  it('ignores QR codes that are not licenses', () => {
+    expect(checkLicenseQr('https://example.com', { publicKeys, now })).toEqual({
+      status: 'unrecognized',
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { clusterReports, regionBounds } from '../mapClusters';
+
+function report(id, lat, lon) {
+  return { id, lat, lon, status: 'violation', message: null, created_at: '2024-05-20T12:00:00Z' };
+}
+
+// Centred on Bhubaneswar; a 0.08° wide view gives 0.01° grid cells.
+const region = { latitude: 20.27, longitude: 85.83, latitudeDelta: 0.08, longitudeDelta: 0.08 };
+
+describe('clusterReports', () => {
+  it('merges reports in the same grid cell into one bubble at their centre', () => {
+    const clusters = clusterReports(
+      [report('a', 20.2712, 85.8312), report('b', 20.2748, 85.8348), report('c', 20.2952, 85.8552)],
+      region
+    );
+
+    expect(clusters).toHaveLength(2);
+    const [merged, single] = clusters;
+    expect(merged.type).toBe('cluster');
+    expect(merged.reports.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(merged.latitude).toBeCloseTo(20.273);
+    expect(merged.longitude).toBeCloseTo(85.833);
+    expect(single).toMatchObject({ type: 'point', key: 'c', report: { id: 'c' } });
+  });
+
+  it('splits the same reports apart when zoomed in', () => {
+    const reports = [report('a', 20.2712, 85.8312), report('b', 20.2748, 85.8348)];
+    const zoomedIn = { ...region, latitudeDelta: 0.008, longitudeDelta: 0.008 };
+
+    expect(clusterReports(reports, region).map((c) => c.type)).toEqual(['cluster']);
+    expect(clusterReports(reports, zoomedIn).map((c) => c.type)).toEqual(['point', 'point']);
+  });
+
+  it('passes a lone report through unclustered', () => {
+    const lone = report('a', 20.2712, 85.8312);
+    expect(clusterReports([lone], region)).toEqual([{ type: 'point', key: 'a', report: lone }]);
+  });
+
+  it('shows every report as a point when the region has no width', () => {
+    const flat = { ...region, latitudeDelta: 0, longitudeDelta: 0 };
+    const same = [report('a', 20.27, 85.83), report('b', 20.27, 85.83)];
+
+    expect(clusterReports(same, flat).map((c) => c.key)).toEqual(['a', 'b']);
+  });
+
+  it('still groups identical points in a normal view', () => {
+    const same = [report('a', 20.2712, 85.8312), report('b', 20.2712, 85.8312)];
+    const [cluster] = clusterReports(same, region);
+
+    expect(cluster.type).toBe('cluster');
+    expect(cluster.latitude).toBeCloseTo(20.2712);
+    expect(cluster.longitude).toBeCloseTo(85.8312);
+  });
+});
+
+describe('regionBounds', () => {
+  it('spans half the delta on each side of the centre', () => {
+    const bounds = regionBounds(region);
+    expect(bounds.south).toBeCloseTo(20.23);
+    expect(bounds.north).toBeCloseTo(20.31);
+    expect(bounds.west).toBeCloseTo(85.79);
+    expect(bounds.east).toBeCloseTo(85.87);
+  });
+
+  it('collapses to the point itself for a zero-delta region', () => {
+    const point = { latitude: 20.27, longitude: 85.83, latitudeDelta: 0, longitudeDelta: 0 };
+    expect(regionBounds(point)).toEqual({ south: 20.27, north: 20.27, west: 85.83, east: 85.83 });
+  });
+});
@@ -0,0 +1,129 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Notifications from 'expo-notifications';
+
+import {
+  effectiveStatus,
+  isFinalStatus,
+  loadNotificationPrefs,
+  markSubmitted,
+  notificationsEnabled,
+  setNotificationsEnabled,
+  startStatusNotifier,
+  statusNotification,
+} from '../notifications';
+import { subscribeReportChanges } from '../realtime';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  scheduleNotificationAsync: jest.fn(async () => 'id'),
+}));
+jest.mock('../realtime', () => ({ subscribeReportChanges: jest.fn(() => () => {}) }));
+
+// Every query resolves to `mockPending`, which is all the notifier's catch-up reads.
+let mockPending = [];
+jest.mock('../supabase', () => {
+  const query = () => {
+    const builder = {
+      select: () => builder,
+      update: () => builder,
+      in: () => builder,
+      eq: () => builder,
+      is: () => builder,
+      then: (resolve, reject) =>
+        Promise.resolve({ data: mockPending, error: null }).then(resolve, reject),
+    };
+    return builder;
+  };
+  return { supabase: { from: query, channel: jest.fn() } };
+});
+
+const settle = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('effectiveStatus', () => {
+  it('prefers the review outcome over the automated status', () => {
+    expect(effectiveStatus({ status: 'pending', review_status: 'confirmed' })).toBe('confirmed');
+    expect(effectiveStatus({ status: 'violation', review_status: null })).toBe('violation');
+    expect(effectiveStatus({ status: null })).toBe('pending');
+  });
+});
+
+describe('isFinalStatus', () => {
+  it('treats everything but pending and queued as final', () => {
+    expect(isFinalStatus('pending')).toBe(false);
+    expect(isFinalStatus('queued')).toBe(false);
+    expect(isFinalStatus('violation')).toBe(true);
+    expect(isFinalStatus('dismissed')).toBe(true);
+  });
+});
+
+describe('statusNotification', () => {
+  it('names the outcome and the place', () => {
+    expect(
+      statusNotification({
+        status: 'violation',
+        message: null,
+        review_status: 'dismissed',
+        address: 'Janpath',
+      })
+    ).toEqual({ title: 'Report update', body: '✅ Dismissed on review · Janpath' });
+  });
+});
+
+describe('notification preferences', () => {
+  beforeEach(() => AsyncStorage.clear());
+
+  it('are on by default and remembered per user', async () => {
+    await loadNotificationPrefs();
+    expect(notificationsEnabled('u1')).toBe(true);
+    expect(notificationsEnabled(null)).toBe(false);
+
+    await setNotificationsEnabled('u1', false);
+    await loadNotificationPrefs();
+    expect(notificationsEnabled('u1')).toBe(false);
+    expect(notificationsEnabled('u2')).toBe(true);
+
+    await setNotificationsEnabled('u1', true);
+    expect(notificationsEnabled('u1')).toBe(true);
+  });
+});
+
+describe('startStatusNotifier', () => {
+  const update = (id, status) => ({
+    eventType: 'UPDATE',
+    new: { id, status, message: null, review_status: null, address: null },
+    old: {},
+  });
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    Notifications.scheduleNotificationAsync.mockClear();
+  });
+
+  it('listens before catching up and replays what arrived meanwhile', async () => {
+    mockPending = [{ id: 'r1' }];
+    const stop = startStatusNotifier('u1');
+    const onChange = subscribeReportChanges.mock.calls.at(-1)[1];
+    onChange(update('r1', 'violation'));
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+
+    await settle();
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledTimes(1);
+    stop();
+  });
+
+  it('stays quiet for a report the capture screen is showing', async () => {
+    mockPending = [{ id: 'r2' }];
+    markSubmitted('r2');
+    const stop = startStatusNotifier('u1');
+    const onChange = subscribeReportChanges.mock.calls.at(-1)[1];
+    await settle();
+
+    onChange(update('r2', 'success'));
+    expect(Notifications.scheduleNotificationAsync).not.toHaveBeenCalled();
+    stop();
+  });
+});
@@ -0,0 +1,67 @@
+import { enqueueReport, flushOutbox, getOutbox } from '../outbox';
+import { xhrRequest } from '../http';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('@react-native-community/netinfo', () => ({ addEventListener: () => () => {} }));
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+jest.mock('expo-file-system', () => ({
+  documentDirectory: 'file:///docs/',
+  makeDirectoryAsync: jest.fn(() => Promise.resolve()),
+  copyAsync: jest.fn(() => Promise.resolve()),
+  deleteAsync: jest.fn(() => Promise.resolve()),
+}));
+jest.mock('../supabase', () => ({ supabase: {} }));
+jest.mock('../http', () => ({
+  ...jest.requireActual('../http'),
+  xhrRequest: jest.fn(),
+}));
+
+// Photos already uploaded: a sync only repeats the /analyze call.
+function draft() {
+  return {
+    photoUris: ['file:///cache/photo.jpg'],
+    coords: { latitude: 20.2961, longitude: 85.8245 },
+    address: 'Janpath, Bhubaneswar',
+    qrValue: null,
+    userId: 'u1',
+    zoneId: null,
+    annotations: null,
+    capture: null,
+    ruleVerdicts: [],
+    source: 'camera',
+    status: 'pending',
+    message: null,
+    imageUrl: 'https://example.test/photo.jpg',
+    reportId: 'r1',
+  };
+}
+
+describe('flushOutbox', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('keeps an item the backend answered with an error status', async () => {
+    xhrRequest.mockResolvedValue({ status: 500, body: '{"detail":"Internal Server Error"}' });
+    const item = await enqueueReport(draft());
+
+    await flushOutbox({ force: true });
+
+    const kept = (await getOutbox()).find((it) => it.id === item.id);
+    expect(kept).toBeDefined();
+    expect(kept.attempts).toBe(1);
+    expect(kept.lastError).toMatch(/Analyze request failed/);
+  });
+
+  it('removes an item once the analysis went through', async () => {
+    xhrRequest.mockResolvedValue({ status: 200, body: '{"status":"success","message":"ok"}' });
+    const item = await enqueueReport(draft());
+
+    await flushOutbox({ force: true });
+
+    expect((await getOutbox()).some((it) => it.id === item.id)).toBe(false);
+  });
+});
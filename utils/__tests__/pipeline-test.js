@@ -0,0 +1,27 @@
+import { abortable, throwIfAborted } from '../pipeline';
+
+describe('abortable', () => {
+  it('passes results and errors through when not cancelled', async () => {
+    const controller = new AbortController();
+    await expect(abortable(Promise.resolve(42), controller.signal)).resolves.toBe(42);
+    await expect(abortable(Promise.reject(new Error('boom')), controller.signal)).rejects.toThrow(
+      'boom'
+    );
+  });
+
+  it('rejects with an AbortError as soon as the signal fires', async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => {}), controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  it('rejects right away for an already aborted signal', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(abortable(Promise.resolve(1), controller.signal)).rejects.toMatchObject({
+      name: 'AbortError',
+    });
+    expect(() => throwIfAborted(controller.signal)).toThrow('Aborted');
+  });
+});
@@ -0,0 +1,120 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import {
+  cacheKey,
+  cursorAfter,
+  cursorFilter,
+  fetchReportsPage,
+  findCachedReport,
+  PAGE_SIZE,
+  readCachedReports,
+  writeCachedReports,
+} from '../reportCache';
+import { DEFAULT_FILTERS } from '../reportFilters';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+jest.mock('expo-file-system', () => ({ documentDirectory: 'file:///docs/', cacheDirectory: 'file:///cache/' }));
+
+// Records the query-builder calls made against `supabase` and resolves to no rows.
+const mockCalls = [];
+jest.mock('../supabase', () => {
+  const builder = new Proxy(
+    {},
+    {
+      get: (_, prop) =>
+        prop === 'then'
+          ? (resolve) => resolve({ data: [], error: null })
+          : (...args) => {
+              mockCalls.push([prop, ...args]);
+              return builder;
+            },
+    }
+  );
+  return { supabase: builder };
+});
+
+function report(id, createdAt) {
+  return { id, created_at: createdAt, user_id: 'u1', status: 'pending', message: null, image_url: null };
+}
+
+beforeEach(() => {
+  mockCalls.length = 0;
+});
+
+describe('cursor pagination', () => {
+  it('continues after the last loaded row', () => {
+    const rows = [report('b', '2024-05-02T10:00:00+00:00'), report('a', '2024-05-01T10:00:00+00:00')];
+    expect(cursorAfter(rows)).toEqual({ createdAt: '2024-05-01T10:00:00+00:00', id: 'a' });
+    expect(cursorAfter([])).toBeNull();
+  });
+
+  it('breaks created_at ties on id, in the direction of the sort', () => {
+    const cursor = { createdAt: '2024-05-01T10:00:00+00:00', id: 'a' };
+    expect(cursorFilter(cursor, false)).toBe(
+      'created_at.lt."2024-05-01T10:00:00+00:00",and(created_at.eq."2024-05-01T10:00:00+00:00",id.lt.a)'
+    );
+    expect(cursorFilter(cursor, true)).toContain('id.gt.a');
+  });
+
+  it('asks for the first page without a cursor', async () => {
+    await fetchReportsPage(DEFAULT_FILTERS, { userId: 'u1' });
+    expect(mockCalls.some(([m]) => m === 'or')).toBe(false);
+    expect(mockCalls).toContainEqual(['order', 'id', { ascending: false }]);
+    expect(mockCalls).toContainEqual(['limit', PAGE_SIZE]);
+  });
+
+  it('asks for later pages by cursor instead of offset', async () => {
+    const loaded = [report('a', '2024-05-01T10:00:00+00:00')];
+    await fetchReportsPage(DEFAULT_FILTERS, { userId: 'u1', loaded });
+    expect(mockCalls).toContainEqual(['or', cursorFilter(cursorAfter(loaded), false)]);
+    expect(mockCalls.some(([m]) => m === 'range')).toBe(false);
+  });
+
+  it('pages the nearest sort by offset', async () => {
+    const loaded = [report('a', '2024-05-01T10:00:00+00:00')];
+    await fetchReportsPage(
+      { ...DEFAULT_FILTERS, sort: 'nearest' },
+      { origin: { latitude: 20.3, longitude: 85.8 }, loaded }
+    );
+    expect(mockCalls).toContainEqual(['range', 1, PAGE_SIZE]);
+  });
+});
+
+describe('on-device cache', () => {
+  it('keys lists by scope and filters', () => {
+    expect(cacheKey(DEFAULT_FILTERS, 'u1')).not.toBe(cacheKey(DEFAULT_FILTERS, null));
+    expect(cacheKey(DEFAULT_FILTERS, null)).not.toBe(
+      cacheKey({ ...DEFAULT_FILTERS, sort: 'oldest' }, null)
+    );
+  });
+
+  it('round-trips a list and finds single rows in it', async () => {
+    const key = cacheKey(DEFAULT_FILTERS, 'u1');
+    await writeCachedReports(key, [report('a', '2024-05-01T10:00:00+00:00')], true);
+    const cached = await readCachedReports(key);
+    expect(cached.rows.map((r) => r.id)).toEqual(['a']);
+    expect(cached.endReached).toBe(true);
+    expect(await findCachedReport('a')).toMatchObject({ id: 'a' });
+    expect(await findCachedReport('missing')).toBeNull();
+  });
+
+  it('keeps only the first rows of a long list', async () => {
+    const key = cacheKey({ ...DEFAULT_FILTERS, search: 'long' }, null);
+    const rows = Array.from({ length: 60 }, (_, i) => report(`r${i}`, '2024-05-01T10:00:00+00:00'));
+    await writeCachedReports(key, rows, true);
+    const cached = await readCachedReports(key);
+    expect(cached.rows.length).toBeLessThan(rows.length);
+    expect(cached.endReached).toBe(false);
+  });
+
+  it('forgets the least recently written lists', async () => {
+    const keys = ['a', 'b', 'c', 'd', 'e'].map((s) => cacheKey({ ...DEFAULT_FILTERS, search: s }, null));
+    for (const key of keys) await writeCachedReports(key, [], true);
+    expect(await readCachedReports(keys[0])).toBeNull();
+    expect(await readCachedReports(keys[4])).not.toBeNull();
+    expect(await AsyncStorage.getItem(`report-cache:v1:${keys[0]}`)).toBeNull();
+  });
+});
@@ -0,0 +1,140 @@
+import { setLocale } from '../i18n';
+import {
+  classifyAnalyzeResponse,
+  classifyReport,
+  otherReasons,
+  parseReasons,
+  reasonText,
+  resultHint,
+  statusTone,
+} from '../reportResult';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-localization', () => ({ getLocales: () => [{ languageCode: 'en' }] }));
+
+describe('parseReasons', () => {
+  it('splits the backend message and tags every known reason', () => {
+    expect(
+      parseReasons(
+        '✅ QR Found Correctly; Invalid QR format; Missing QR; No license information detected.; ' +
+          'No billboard detected; Out of allowed zone; Inside prohibited zone; Within school buffer zone; ' +
+          'Outside allowed time; Size exceeds limit'
+      ).map((r) => r.code)
+    ).toEqual([
+      'qr-found',
+      'invalid-qr-format',
+      'missing-qr',
+      'no-license-info',
+      'no-billboard',
+      'out-of-zone',
+      'prohibited-zone',
+      'school-buffer',
+      'outside-time',
+      'other',
+    ]);
+  });
+
+  it('tolerates missing spaces and empty parts', () => {
+    expect(parseReasons('Missing QR;Out of allowed zone; ')).toEqual([
+      { code: 'missing-qr', text: 'Missing QR' },
+      { code: 'out-of-zone', text: 'Out of allowed zone' },
+    ]);
+  });
+
+  it('returns no reasons for an empty message', () => {
+    expect(parseReasons(null)).toEqual([]);
+    expect(parseReasons('')).toEqual([]);
+  });
+});
+
+describe('classifyReport', () => {
+  it.each([
+    ['violation', 'No billboard detected', 'no-billboard'],
+    ['violation', 'Invalid QR format; No billboard detected', 'no-billboard'],
+    ['violation', 'Missing QR', 'missing-license'],
+    ['violation', 'Missing QR; Out of allowed zone', 'missing-license'],
+    ['violation', 'No license information detected.', 'missing-license'],
+    ['violation', 'Invalid QR format', 'license-ok'],
+    ['violation', 'Invalid QR format; No license information detected.', 'license-ok'],
+    ['violation', 'Invalid QR format; Outside allowed time', 'license-ok'],
+    ['success', '✅ QR Found Correctly', 'license-ok'],
+    ['violation', 'Out of allowed zone', 'out-of-zone'],
+    ['violation', 'Inside prohibited zone', 'out-of-zone'],
+    ['violation', 'Within school buffer zone', 'out-of-zone'],
+    ['violation', 'Outside allowed time', 'time-violation'],
+    ['violation', 'Policy violation detected', 'violation'],
+    ['success', 'Report stored in Supabase', 'success'],
+    ['error', 'Upload failed', 'error'],
+    ['error', 'Could not capture or send photo', 'error'],
+    ['queued', 'Saved on device, waiting to sync', 'queued'],
+    ['warning', null, 'warning'],
+    ['pending', null, 'pending'],
+    [null, null, 'pending'],
+    ['something-new', null, 'pending'],
+  ])('status %p with message %p is %p', (status, message, kind) => {
+    expect(classifyReport(status, message).kind).toBe(kind);
+  });
+
+  it('keeps only the free-text reasons as extra lines', () => {
+    const result = classifyReport('violation', 'Missing QR; Out of allowed zone; Size exceeds limit');
+    expect(otherReasons(result)).toEqual([{ code: 'other', text: 'Size exceeds limit' }]);
+  });
+});
+
+describe('classifyAnalyzeResponse', () => {
+  it('reads status and message off the /analyze payload', () => {
+    expect(classifyAnalyzeResponse({ status: 'violation', message: 'Missing QR' })).toEqual({
+      kind: 'missing-license',
+      status: 'violation',
+      reasons: [{ code: 'missing-qr', text: 'Missing QR' }],
+    });
+  });
+
+  it('treats an unreachable backend as pending', () => {
+    expect(classifyAnalyzeResponse(null).kind).toBe('pending');
+  });
+});
+
+describe('reasonText', () => {
+  afterEach(() => setLocale(null));
+
+  it('translates known reasons and keeps free text as sent', async () => {
+    await setLocale('hi');
+    const [missing, expired, other] = parseReasons(
+      'Missing QR; License expired on 2024-03-31; Size exceeds limit'
+    );
+    expect(reasonText(missing)).toBe('QR नहीं मिला');
+    expect(reasonText(expired)).toBe('लाइसेंस 2024-03-31 को समाप्त हो गया');
+    expect(reasonText(other)).toBe('Size exceeds limit');
+  });
+
+  it('shows the app\'s own notes as extra lines', () => {
+    const result = classifyReport('violation', 'Missing QR; License QR signature is invalid');
+    expect(otherReasons(result).map((r) => r.code)).toEqual(['license-forged']);
+  });
+});
+
+describe('statusTone', () => {
+  it.each([
+    ['success', '✅ QR Found Correctly', 'success'],
+    ['violation', 'Missing QR', 'violation'],
+    ['violation', 'Outside allowed time', 'violation'],
+    ['violation', 'No billboard detected', 'warning'],
+    ['error', 'Upload failed', 'error'],
+    ['queued', null, 'pending'],
+    [null, null, 'pending'],
+  ])('status %p with message %p is drawn as %p', (status, message, tone) => {
+    expect(statusTone(classifyReport(status, message))).toBe(tone);
+  });
+});
+
+describe('resultHint', () => {
+  it('explains the results that need it, with an optional icon', () => {
+    const missing = classifyReport('violation', 'Missing QR');
+    expect(resultHint(missing)).toBe('Violation Report will be drafted Soon');
+    expect(resultHint(missing, { icon: true })).toBe('‼️ Violation Report will be drafted Soon');
+    expect(resultHint(classifyReport('error', 'Upload failed'))).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { isReviewer, isValidReason, REVIEW_DECISIONS, REVIEW_STATUS, reviewTone } from '../reviews';
+
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+describe('isReviewer', () => {
+  it('reads the role from app_metadata', () => {
+    expect(isReviewer({ app_metadata: { role: 'reviewer' } })).toBe(true);
+    expect(isReviewer({ app_metadata: { roles: ['inspector', 'reviewer'] } })).toBe(true);
+  });
+
+  it('is false for everyone else', () => {
+    expect(isReviewer({ app_metadata: { role: 'inspector' } })).toBe(false);
+    expect(isReviewer({ app_metadata: {} })).toBe(false);
+    expect(isReviewer(null)).toBe(false);
+  });
+});
+
+describe('isValidReason', () => {
+  it('requires a few real characters', () => {
+    expect(isValidReason('')).toBe(false);
+    expect(isValidReason('   ok   ')).toBe(false);
+    expect(isValidReason('QR is visible in photo 2')).toBe(true);
+  });
+});
+
+describe('review outcomes', () => {
+  it('maps every decision to a final status with a tone', () => {
+    expect(REVIEW_DECISIONS.map((d) => REVIEW_STATUS[d])).toEqual([
+      'confirmed',
+      'dismissed',
+      'escalated',
+    ]);
+    expect(reviewTone('confirmed')).toBe('violation');
+    expect(reviewTone('dismissed')).toBe('success');
+    expect(reviewTone('escalated')).toBe('warning');
+  });
+});
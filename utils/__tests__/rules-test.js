@@ -0,0 +1,85 @@
+import { DEFAULT_RULES, evaluateRules, inQuietHours, ruleViolations } from '../rules';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../supabase', () => ({ supabase: {} }));
+
+// Local wall-clock times, as the rules are written.
+const at = (hours, minutes = 0) => new Date(2024, 4, 20, hours, minutes);
+
+describe('inQuietHours', () => {
+  it.each([
+    [at(23, 0), true],
+    [at(2, 30), true],
+    [at(5, 59), true],
+    [at(6, 0), false],
+    [at(22, 59), false],
+    [at(12, 0), false],
+  ])('23:00-06:00 at %p is %p', (time, expected) => {
+    expect(inQuietHours(time, '23:00', '06:00')).toBe(expected);
+  });
+
+  it('handles windows within one day', () => {
+    expect(inQuietHours(at(13, 0), '12:00', '14:00')).toBe(true);
+    expect(inQuietHours(at(14, 0), '12:00', '14:00')).toBe(false);
+  });
+
+  it('ignores malformed times', () => {
+    expect(inQuietHours(at(23, 30), '11pm', '06:00')).toBe(false);
+    expect(inQuietHours(at(23, 30), '23:00', '23:00')).toBe(false);
+  });
+});
+
+describe('evaluateRules', () => {
+  const ctx = { at: at(23, 30), zoneId: 'z1', hoardingType: 'illuminated' };
+
+  it('flags illuminated hoardings after 23:00 with the rule id', () => {
+    expect(evaluateRules(ctx, DEFAULT_RULES)).toEqual([
+      {
+        ruleId: 'illuminated-night',
+        ruleName: DEFAULT_RULES[0].name,
+        outcome: 'violation',
+        evaluatedAt: ctx.at.toISOString(),
+      },
+    ]);
+  });
+
+  it('records passes too', () => {
+    const [verdict] = evaluateRules({ ...ctx, at: at(20, 0) }, DEFAULT_RULES);
+    expect(verdict.outcome).toBe('pass');
+  });
+
+  it('skips rules for other hoarding types or an unknown type', () => {
+    expect(evaluateRules({ ...ctx, hoardingType: 'standard' }, DEFAULT_RULES)).toEqual([]);
+    expect(evaluateRules({ ...ctx, hoardingType: null }, DEFAULT_RULES)).toEqual([]);
+  });
+
+  it('limits rules to their zones', () => {
+    const rules = [{ ...DEFAULT_RULES[0], appliesTo: [], zoneIds: ['z2'] }];
+    expect(evaluateRules(ctx, rules)).toEqual([]);
+    expect(evaluateRules({ ...ctx, zoneId: 'z2' }, rules)).toHaveLength(1);
+  });
+
+  it('allows event banners only inside the event window', () => {
+    const rules = [
+      {
+        id: 'rath-yatra-2024',
+        name: 'Rath Yatra banners',
+        kind: 'event-window',
+        startsAt: new Date(2024, 6, 1).toISOString(),
+        endsAt: new Date(2024, 6, 20).toISOString(),
+        appliesTo: ['temporary-banner'],
+      },
+    ];
+    const banner = { ...ctx, hoardingType: 'temporary-banner' };
+    expect(ruleViolations(evaluateRules({ ...banner, at: new Date(2024, 6, 10) }, rules))).toEqual(
+      []
+    );
+    expect(
+      ruleViolations(evaluateRules({ ...banner, at: new Date(2024, 6, 25) }, rules)).map(
+        (v) => v.ruleId
+      )
+    ).toEqual(['rath-yatra-2024']);
+  });
+});
@@ -0,0 +1,84 @@
+import { Locale, t } from "./i18n";
+
+// -------------------- Inspector annotations --------------------
+// Filled in on the review step after capture and stored on the report row
+// (`annotations` jsonb) next to the automated analysis.
+
+export type ViolationCategory =
+  | "oversized"
+  | "unlicensed"
+  | "obscene-content"
+  | "traffic-obstruction"
+  | "expired-license";
+
+export const VIOLATION_CATEGORIES: ViolationCategory[] = [
+  "oversized",
+  "unlicensed",
+  "obscene-content",
+  "traffic-obstruction",
+  "expired-license",
+];
+
+// What kind of hoarding it is; schedule rules (rules.ts) can target a type.
+export type HoardingType = "standard" | "illuminated" | "temporary-banner";
+
+export const HOARDING_TYPES: HoardingType[] = ["standard", "illuminated", "temporary-banner"];
+
+// Fractions of the photo's width/height, so the box survives any resize.
+export type BoundingBox = { x: number; y: number; width: number; height: number };
+
+export type Annotations = {
+  photoIndex: number; // which photo of the bundle the box was drawn on
+  box: BoundingBox | null;
+  categories: ViolationCategory[];
+  note: string;
+  hoardingType?: HoardingType | null; // missing on rows filed before it existed
+};
+
+export const EMPTY_ANNOTATIONS: Annotations = {
+  photoIndex: 0,
+  box: null,
+  categories: [],
+  note: "",
+  hoardingType: null,
+};
+
+// Boxes smaller than this (per side) are treated as accidental taps.
+const MIN_BOX_SIZE = 0.02;
+
+const clamp01 = (v: number) => Math.min(Math.max(v, 0), 1);
+
+// Turns a drag from `start` to `end` (in view pixels) into a normalized box,
+// whichever direction it was drawn in. Returns null for taps.
+export function boxFromDrag(
+  start: { x: number; y: number },
+  end: { x: number; y: number },
+  size: { width: number; height: number }
+): BoundingBox | null {
+  if (!(size.width > 0 && size.height > 0)) return null;
+  const x1 = clamp01(Math.min(start.x, end.x) / size.width);
+  const x2 = clamp01(Math.max(start.x, end.x) / size.width);
+  const y1 = clamp01(Math.min(start.y, end.y) / size.height);
+  const y2 = clamp01(Math.max(start.y, end.y) / size.height);
+  if (x2 - x1 < MIN_BOX_SIZE || y2 - y1 < MIN_BOX_SIZE) return null;
+  return { x: x1, y: y1, width: x2 - x1, height: y2 - y1 };
+}
+
+// Keeps the markup when a photo leaves the bundle. The box goes only if it was
+// drawn on that photo; a box on a later photo follows it down one place.
+export function withoutPhoto(a: Annotations, removedIndex: number): Annotations {
+  if (removedIndex === a.photoIndex) return { ...a, photoIndex: 0, box: null };
+  if (removedIndex < a.photoIndex) return { ...a, photoIndex: a.photoIndex - 1 };
+  return a;
+}
+
+export function hasAnnotations(a: Annotations | null | undefined): a is Annotations {
+  return (
+    !!a && (!!a.box || a.categories.length > 0 || a.note.trim() !== "" || !!a.hoardingType)
+  );
+}
+
+export function categoryLabel(id: string, locale?: Locale) {
+  const known = VIOLATION_CATEGORIES.find((c) => c === id);
+  return known ? t(`category.${known}`, undefined, locale) : id;
+}
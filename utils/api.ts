@@ -1,4 +1,55 @@
-const API_BASE_URL = "http://192.168.1.6:8000"; 
-// 👆 replace with your computer’s LAN IP + FastAPI port
+import AsyncStorage from "@react-native-async-storage/async-storage";
 
-export default API_BASE_URL;
+import config from "./config";
+
+// Testers can point the analyze calls at another backend from the hidden
+// settings screen; that choice survives restarts until it is reset.
+const OVERRIDE_KEY = "api-base-url-override";
+const PING_TIMEOUT_MS = 5000;
+
+let override: string | null = null;
+
+export function getApiBaseUrl() {
+  return override ?? config.apiBaseUrl;
+}
+
+export function getApiBaseUrlOverride() {
+  return override;
+}
+
+export async function loadApiBaseUrlOverride() {
+  try {
+    override = await AsyncStorage.getItem(OVERRIDE_KEY);
+  } catch (err) {
+    console.warn("⚠️ Could not read API URL override:", err);
+  }
+  return getApiBaseUrl();
+}
+
+export async function setApiBaseUrlOverride(url: string | null) {
+  const trimmed = url?.trim().replace(/\/+$/, "") || null;
+  override = trimmed;
+  if (trimmed) await AsyncStorage.setItem(OVERRIDE_KEY, trimmed);
+  else await AsyncStorage.removeItem(OVERRIDE_KEY);
+  return getApiBaseUrl();
+}
+
+export type PingResult =
+  | { ok: true; status: number; ms: number }
+  | { ok: false; error: string; ms: number };
+
+// Any HTTP answer counts as reachable; we only care that the host responds.
+export async function pingBackend(baseUrl = getApiBaseUrl()): Promise<PingResult> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), PING_TIMEOUT_MS);
+  const started = Date.now();
+  try {
+    const res = await fetch(`${baseUrl}/`, { signal: controller.signal });
+    return { ok: true, status: res.status, ms: Date.now() - started };
+  } catch (err: any) {
+    const error = err?.name === "AbortError" ? "Timed out" : err?.message ?? String(err);
+    return { ok: false, error, ms: Date.now() - started };
+  } finally {
+    clearTimeout(timer);
+  }
+}
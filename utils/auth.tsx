@@ -0,0 +1,52 @@
+import { Session, User } from "@supabase/supabase-js";
+import React, { createContext, useContext, useEffect, useState } from "react";
+
+import { unregisterPushToken } from "./notifications";
+import { clearReportCache } from "./reportCache";
+import { supabase } from "./supabase";
+
+type AuthState = {
+  session: Session | null;
+  user: User | null;
+  loading: boolean;
+};
+
+const AuthContext = createContext<AuthState>({ session: null, user: null, loading: true });
+
+// Restores the session persisted in AsyncStorage by the Supabase client and
+// keeps it in sync with sign-in / sign-out / token refresh events.
+export function AuthProvider({ children }: { children: React.ReactNode }) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    supabase.auth
+      .getSession()
+      .then(({ data }) => setSession(data.session))
+      .catch((err) => console.warn("⚠️ Could not restore session:", err))
+      .finally(() => setLoading(false));
+
+    const { data } = supabase.auth.onAuthStateChange((_event, next) => {
+      setSession(next);
+    });
+    return () => data.subscription.unsubscribe();
+  }, []);
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading }}>
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  return useContext(AuthContext);
+}
+
+export async function signOut() {
+  // Needs the session, so it goes first; a failure must not block signing out.
+  await unregisterPushToken().catch((err) => console.warn("⚠️ Could not remove push token:", err));
+  const { error } = await supabase.auth.signOut();
+  if (error) throw error;
+  await clearReportCache().catch((err) => console.warn("⚠️ Could not clear report cache:", err));
+}
@@ -0,0 +1,147 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { decode as atob } from "base-64";
+import * as ImageManipulator from "expo-image-manipulator";
+import { Accelerometer } from "expo-sensors";
+import * as jpeg from "jpeg-js";
+import { useEffect, useRef, useState } from "react";
+
+// -------------------- Guided capture --------------------
+// In guided mode the camera shows a framing overlay and a level, and every
+// photo is checked for blur, darkness and tilt right after it is taken so the
+// user can retake it before anything is uploaded. The thresholds are
+// heuristics tuned on the 256 px analysis copy, not on the full photo.
+
+export type QualityIssue = "blurry" | "dark" | "tilted";
+
+// Stored per photo on `capture.quality`.
+export type PhotoQuality = {
+  sharpness: number; // variance of the Laplacian
+  brightness: number; // mean luma, 0-255
+  tiltDeg: number | null; // roll away from level when the shot was taken
+  issues: QualityIssue[];
+};
+
+export const MIN_SHARPNESS = 60;
+export const MIN_BRIGHTNESS = 45;
+export const MAX_TILT_DEG = 10;
+
+const ANALYSIS_WIDTH = 256;
+
+// -------------------- Metrics --------------------
+export function toGray(rgba: ArrayLike<number>, width: number, height: number) {
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return gray;
+}
+
+export function meanBrightness(gray: ArrayLike<number>) {
+  let sum = 0;
+  for (let i = 0; i < gray.length; i++) sum += gray[i];
+  return gray.length > 0 ? sum / gray.length : 0;
+}
+
+// Sharp edges give a wide spread of Laplacian responses; blur flattens them.
+export function laplacianVariance(gray: ArrayLike<number>, width: number, height: number) {
+  let sum = 0;
+  let sumSq = 0;
+  let n = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const v = gray[i - width] + gray[i + width] + gray[i - 1] + gray[i + 1] - 4 * gray[i];
+      sum += v;
+      sumSq += v * v;
+      n++;
+    }
+  }
+  if (n === 0) return 0;
+  const mean = sum / n;
+  return sumSq / n - mean * mean;
+}
+
+// Roll from the accelerometer's gravity vector, measured against whichever
+// edge of the phone is closest to level so landscape shots count as upright.
+// Null when the phone points at the sky or the ground and roll means nothing.
+export function tiltFromGravity({ x, y }: { x: number; y: number }) {
+  if (Math.hypot(x, y) < 0.5) return null;
+  const deg = (Math.atan2(x, y) * 180) / Math.PI;
+  let off = ((deg % 90) + 90) % 90;
+  if (off > 45) off -= 90;
+  return off;
+}
+
+export function qualityIssues(q: Omit<PhotoQuality, "issues">): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  if (q.sharpness < MIN_SHARPNESS) issues.push("blurry");
+  if (q.brightness < MIN_BRIGHTNESS) issues.push("dark");
+  if (q.tiltDeg != null && Math.abs(q.tiltDeg) > MAX_TILT_DEG) issues.push("tilted");
+  return issues;
+}
+
+// Returns null when the photo could not be read; the shot is then kept as is.
+export async function assessPhoto(uri: string, tiltDeg: number | null): Promise<PhotoQuality | null> {
+  try {
+    const small = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ resize: { width: ANALYSIS_WIDTH } }],
+      { base64: true, compress: 0.9, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    if (!small.base64) return null;
+    const bytes = Uint8Array.from(atob(small.base64), (c) => c.charCodeAt(0));
+    const { data, width, height } = jpeg.decode(bytes, { useTArray: true });
+    const gray = toGray(data, width, height);
+    const metrics = {
+      sharpness: Math.round(laplacianVariance(gray, width, height)),
+      brightness: Math.round(meanBrightness(gray)),
+      tiltDeg: tiltDeg == null ? null : Math.round(tiltDeg),
+    };
+    return { ...metrics, issues: qualityIssues(metrics) };
+  } catch (err) {
+    console.warn("⚠️ Could not check photo quality:", err);
+    return null;
+  }
+}
+
+// -------------------- Live tilt --------------------
+// Current roll while `enabled`, for the on-screen level and the post-capture
+// check. The ref always holds the latest value without re-rendering.
+export function useDeviceTilt(enabled: boolean) {
+  const [tilt, setTilt] = useState<number | null>(null);
+  const latest = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) {
+      latest.current = null;
+      setTilt(null);
+      return;
+    }
+    Accelerometer.setUpdateInterval(200);
+    const sub = Accelerometer.addListener((g) => {
+      const next = tiltFromGravity(g);
+      latest.current = next;
+      setTilt(next == null ? null : Math.round(next));
+    });
+    return () => sub.remove();
+  }, [enabled]);
+
+  return { tilt, latest };
+}
+
+// -------------------- Preference --------------------
+const GUIDED_KEY = "guided-capture:v1";
+
+// Guided mode is on until the user switches it off.
+export async function loadGuidedMode() {
+  try {
+    return (await AsyncStorage.getItem(GUIDED_KEY)) !== "off";
+  } catch (err) {
+    console.warn("⚠️ Could not read guided capture setting:", err);
+    return true;
+  }
+}
+
+export async function saveGuidedMode(enabled: boolean) {
+  await AsyncStorage.setItem(GUIDED_KEY, enabled ? "on" : "off");
+}
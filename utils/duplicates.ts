@@ -0,0 +1,181 @@
+import { decode as atob } from "base-64";
+import * as ImageManipulator from "expo-image-manipulator";
+import * as jpeg from "jpeg-js";
+
+import { haversineMeters } from "./geofence";
+import { Coords, Report } from "./reports";
+import { supabase } from "./supabase";
+
+// -------------------- Duplicate detection --------------------
+// Before a new row is created the app looks for recent reports of the same
+// hoarding: close by, with the same license QR, or with a photo that looks the
+// same. The user can then add their photos to that report instead.
+
+export const DUPLICATE_RADIUS_M = 50;
+export const DUPLICATE_WINDOW_DAYS = 14;
+// Bits out of 64 that may differ for two photos to count as the same hoarding.
+export const MAX_PHASH_DISTANCE = 12;
+
+const MAX_CANDIDATES = 50;
+
+export type DuplicateReason = "nearby" | "same-qr" | "similar-photo";
+
+export type DuplicateMatch = {
+  report: Report;
+  distanceM: number | null;
+  reasons: DuplicateReason[];
+};
+
+export type DuplicateProbe = {
+  coords: Coords;
+  qrValue: string | null;
+  phash: (string | null)[];
+};
+
+// -------------------- Perceptual hash --------------------
+// dHash: shrink to 9x8, go grayscale and record whether each pixel is brighter
+// than its right-hand neighbour. Recompression, resizing and small exposure
+// changes barely move it, unlike the SHA-256 of the file.
+const HASH_WIDTH = 9;
+const HASH_HEIGHT = 8;
+
+export function dHash(rgba: ArrayLike<number>, width: number, height: number) {
+  if (width !== HASH_WIDTH || height !== HASH_HEIGHT) return null;
+  const gray = (x: number, y: number) => {
+    const i = (y * width + x) * 4;
+    return 0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2];
+  };
+
+  let hex = "";
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0;
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      byte = (byte << 1) | (gray(x, y) > gray(x + 1, y) ? 1 : 0);
+    }
+    hex += byte.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+export function hammingDistance(a: string, b: string) {
+  if (a.length !== b.length) return Infinity;
+  let bits = 0;
+  for (let i = 0; i < a.length; i += 2) {
+    let x = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16);
+    while (x) {
+      bits += x & 1;
+      x >>= 1;
+    }
+  }
+  return bits;
+}
+
+// Returns null when the photo could not be read; matching then skips it.
+export async function perceptualHash(uri: string): Promise<string | null> {
+  try {
+    const small = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ resize: { width: HASH_WIDTH, height: HASH_HEIGHT } }],
+      { base64: true, compress: 1, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    if (!small.base64) return null;
+    const bytes = Uint8Array.from(atob(small.base64), (c) => c.charCodeAt(0));
+    const { data, width, height } = jpeg.decode(bytes, { useTArray: true });
+    return dHash(data, width, height);
+  } catch (err) {
+    console.warn("⚠️ Could not hash photo for duplicate check:", err);
+    return null;
+  }
+}
+
+// -------------------- Matching --------------------
+function photosLookAlike(a: (string | null)[], b: (string | null)[] = []) {
+  return a.some(
+    (x) => !!x && b.some((y) => !!y && hammingDistance(x, y) <= MAX_PHASH_DISTANCE)
+  );
+}
+
+// Best matches first: a shared QR or photo says more than being on the same street.
+export function findDuplicates(
+  probe: DuplicateProbe,
+  reports: Report[],
+  opts: { radiusM?: number; windowDays?: number; now?: number } = {}
+): DuplicateMatch[] {
+  const radiusM = opts.radiusM ?? DUPLICATE_RADIUS_M;
+  const since = (opts.now ?? Date.now()) - (opts.windowDays ?? DUPLICATE_WINDOW_DAYS) * 86_400_000;
+  const here = { lat: probe.coords.latitude, lon: probe.coords.longitude };
+
+  const matches: DuplicateMatch[] = [];
+  for (const report of reports) {
+    if (Date.parse(report.created_at) < since) continue;
+    // Two different license QRs are two different hoardings, however close.
+    if (probe.qrValue && report.qr_value && probe.qrValue !== report.qr_value) continue;
+
+    const distanceM =
+      report.lat != null && report.lon != null
+        ? haversineMeters(here, { lat: report.lat, lon: report.lon })
+        : null;
+    const reasons: DuplicateReason[] = [];
+    if (probe.qrValue && report.qr_value === probe.qrValue) reasons.push("same-qr");
+    if (distanceM != null && distanceM <= radiusM) reasons.push("nearby");
+    if (reasons.length === 0) continue;
+    if (photosLookAlike(probe.phash, report.capture?.phash)) reasons.push("similar-photo");
+
+    matches.push({ report, distanceM, reasons });
+  }
+
+  return matches.sort(
+    (a, b) =>
+      b.reasons.length - a.reasons.length ||
+      (a.distanceM ?? Infinity) - (b.distanceM ?? Infinity)
+  );
+}
+
+// -------------------- Lookup --------------------
+// Recent rows inside a box around the capture, plus any recent row with the
+// same QR wherever it was filed. Throws on network errors; callers treat that
+// as "no duplicates known" and carry on.
+export async function fetchDuplicateCandidates(
+  probe: DuplicateProbe,
+  opts: { radiusM?: number; windowDays?: number; signal?: AbortSignal } = {}
+): Promise<Report[]> {
+  const radiusM = opts.radiusM ?? DUPLICATE_RADIUS_M;
+  const since = new Date(
+    Date.now() - (opts.windowDays ?? DUPLICATE_WINDOW_DAYS) * 86_400_000
+  ).toISOString();
+  const { latitude, longitude } = probe.coords;
+  const dLat = radiusM / 111_320;
+  const dLon = radiusM / (111_320 * Math.max(Math.cos((latitude * Math.PI) / 180), 0.01));
+
+  let nearby = supabase
+    .from("reports")
+    .select("*")
+    .gte("created_at", since)
+    .gte("lat", latitude - dLat)
+    .lte("lat", latitude + dLat)
+    .gte("lon", longitude - dLon)
+    .lte("lon", longitude + dLon)
+    .order("created_at", { ascending: false })
+    .limit(MAX_CANDIDATES);
+  if (opts.signal) nearby = nearby.abortSignal(opts.signal);
+
+  const queries = [nearby];
+  if (probe.qrValue) {
+    let sameQr = supabase
+      .from("reports")
+      .select("*")
+      .gte("created_at", since)
+      .eq("qr_value", probe.qrValue)
+      .order("created_at", { ascending: false })
+      .limit(MAX_CANDIDATES);
+    if (opts.signal) sameQr = sameQr.abortSignal(opts.signal);
+    queries.push(sameQr);
+  }
+
+  const rows = new Map<string, Report>();
+  for (const { data, error } of await Promise.all(queries)) {
+    if (error) throw error;
+    for (const row of (data ?? []) as Report[]) rows.set(row.id, row);
+  }
+  return [...rows.values()];
+}
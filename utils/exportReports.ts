@@ -0,0 +1,284 @@
+import * as FileSystem from "expo-file-system";
+import * as ImageManipulator from "expo-image-manipulator";
+import * as Print from "expo-print";
+import * as Sharing from "expo-sharing";
+
+import { categoryLabel, hasAnnotations } from "./annotations";
+import { classifyReport, statusLabel } from "./reportResult";
+import { buildReportsQuery, ReportFilters } from "./reportFilters";
+import { Coords, Report, reportPhotos } from "./reports";
+import { ruleViolations } from "./rules";
+
+// -------------------- Export formats --------------------
+// Reports leave the app as a file handed to the system share sheet: a CSV for
+// spreadsheets, GeoJSON for GIS tools, or a PDF case file with the photos
+// embedded so it still reads when the storage links have expired.
+
+export type ExportFormat = "csv" | "geojson" | "pdf";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "geojson", "pdf"];
+
+// Upper bound for "export everything matching the filters".
+export const EXPORT_LIMIT = 500;
+
+// The case file holds every embedded photo as a base64 data URI inside one
+// HTML string until the PDF is rendered, so it takes far fewer reports than
+// the text formats, and fewer photos each once it grows past a handful.
+export const PDF_LIMIT = 50;
+const PDF_PHOTO_WIDTH = 800;
+const PDF_PHOTOS_PER_REPORT = 4;
+const PDF_PHOTOS_PER_REPORT_LARGE = 1; // above PDF_LARGE reports
+const PDF_LARGE = 10;
+
+function pdfPhotoCount(reportCount: number) {
+  return reportCount > PDF_LARGE ? PDF_PHOTOS_PER_REPORT_LARGE : PDF_PHOTOS_PER_REPORT;
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  csv: { extension: "csv", mimeType: "text/csv", UTI: "public.comma-separated-values-text" },
+  geojson: { extension: "geojson", mimeType: "application/geo+json", UTI: "public.json" },
+  pdf: { extension: "pdf", mimeType: "application/pdf", UTI: "com.adobe.pdf" },
+};
+
+// -------------------- CSV --------------------
+const CSV_COLUMNS = [
+  "id",
+  "created_at",
+  "status",
+  "review_status",
+  "result",
+  "message",
+  "address",
+  "lat",
+  "lon",
+  "zone_id",
+  "qr_value",
+  "user_id",
+  "photo_urls",
+] as const;
+
+// Text starting with one of these runs as a formula when a spreadsheet opens
+// the file; a leading `'` keeps it plain text. Numbers are left alone.
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+export function csvField(value: unknown) {
+  if (value == null) return "";
+  const raw = String(value);
+  const text = typeof value === "string" && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function reportsToCsv(reports: Report[]) {
+  const rows = reports.map((r) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], unknown> = {
+      id: r.id,
+      created_at: r.created_at,
+      status: r.status,
+      review_status: r.review_status,
+      result: classifyReport(r.status, r.message).kind,
+      message: r.message,
+      address: r.address,
+      lat: r.lat,
+      lon: r.lon,
+      zone_id: r.zone_id,
+      qr_value: r.qr_value,
+      user_id: r.user_id,
+      photo_urls: reportPhotos(r).join(" "),
+    };
+    return CSV_COLUMNS.map((c) => csvField(values[c])).join(",");
+  });
+  // CRLF as RFC 4180 asks; spreadsheet apps open it either way.
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n") + "\r\n";
+}
+
+// -------------------- GeoJSON --------------------
+// Rows without a fix cannot be placed on a map, so they are left out.
+export function reportsToGeoJson(reports: Report[]) {
+  return {
+    type: "FeatureCollection" as const,
+    features: reports
+      .filter((r) => r.lat != null && r.lon != null)
+      .map((r) => ({
+        type: "Feature" as const,
+        id: r.id,
+        geometry: { type: "Point" as const, coordinates: [r.lon!, r.lat!] },
+        properties: {
+          id: r.id,
+          status: r.status,
+          message: r.message,
+          review_status: r.review_status ?? null,
+          result: classifyReport(r.status, r.message).kind,
+          address: r.address,
+          created_at: r.created_at,
+          zone_id: r.zone_id ?? null,
+          qr_value: r.qr_value ?? null,
+          photos: reportPhotos(r),
+        },
+      })),
+  };
+}
+
+// -------------------- PDF case file --------------------
+function escapeHtml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Like the shared evidence text, the case file stays in English, labels
+// included, so it can be handed to any office as is. `photoSrc` maps a storage URL to what goes into
+// the <img> tag (a data URI when embedding worked).
+export function reportsToHtml(
+  reports: Report[],
+  photoSrc: (url: string) => string = (url) => url,
+  generatedAt = new Date()
+) {
+  const perReport = pdfPhotoCount(reports.length);
+  const sections = reports.map((r) => {
+    const facts: string[] = [
+      `Status: ${statusLabel(classifyReport(r.status, r.message), "en")}`,
+      `Captured: ${new Date(r.created_at).toLocaleString()}`,
+    ];
+    if (r.review_status) facts.push(`Review: ${r.review_status}`);
+    if (r.address) facts.push(`Address: ${r.address}`);
+    if (r.lat != null && r.lon != null) {
+      facts.push(`Location: ${r.lat.toFixed(6)}, ${r.lon.toFixed(6)}`);
+    }
+    if (r.message) facts.push(`Findings: ${r.message}`);
+    if (r.qr_value) facts.push(`License QR: ${r.qr_value}`);
+    ruleViolations(r.rule_verdicts).forEach((v) =>
+      facts.push(`Rule ${v.ruleId}: ${v.ruleName} (checked on device)`)
+    );
+    if (hasAnnotations(r.annotations)) {
+      const { categories, note } = r.annotations;
+      if (categories.length > 0) {
+        facts.push(`Inspector: ${categories.map((c) => categoryLabel(c, "en")).join(", ")}`);
+      }
+      if (note.trim()) facts.push(`Note: ${note.trim()}`);
+    }
+    if (r.capture) {
+      const { fix, sha256 } = r.capture;
+      if (fix.accuracyM != null) facts.push(`GPS accuracy: ±${Math.round(fix.accuracyM)} m`);
+      sha256.forEach((hash, i) => facts.push(`SHA-256 (photo ${i + 1}): ${hash}`));
+    }
+
+    const photos = reportPhotos(r)
+      .slice(0, perReport)
+      .map((url) => `<img src="${escapeHtml(photoSrc(url))}" />`)
+      .join("");
+
+    return `
+      <section>
+        <h2>Report ${escapeHtml(r.id)}</h2>
+        <ul>${facts.map((f) => `<li>${escapeHtml(f)}</li>`).join("")}</ul>
+        <div class="photos">${photos}</div>
+      </section>`;
+  });
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <style>
+      body { font-family: -apple-system, Roboto, sans-serif; font-size: 12px; color: #111; }
+      h1 { font-size: 18px; margin-bottom: 2px; }
+      .meta { color: #666; margin-bottom: 16px; }
+      section { page-break-inside: avoid; border-top: 1px solid #ddd; padding-top: 8px; margin-top: 12px; }
+      h2 { font-size: 14px; margin: 0 0 4px; }
+      ul { margin: 0; padding-left: 16px; }
+      .photos img { width: 48%; margin: 6px 1% 0 0; border-radius: 4px; }
+    </style>
+  </head>
+  <body>
+    <h1>Hoarding reports case file</h1>
+    <div class="meta">${reports.length} report(s) · generated ${escapeHtml(
+      generatedAt.toLocaleString()
+    )}</div>
+    ${sections.join("")}
+  </body>
+</html>`;
+}
+
+// Downloads and shrinks a photo into a data URI. Falls back to the remote URL,
+// which the print view may still be able to load.
+async function embedPhoto(url: string) {
+  const local = `${FileSystem.cacheDirectory}export-${Date.now()}-${Math.random()
+    .toString(36)
+    .slice(2)}.jpg`;
+  try {
+    const { uri } = await FileSystem.downloadAsync(url, local);
+    const small = await ImageManipulator.manipulateAsync(
+      uri,
+      [{ resize: { width: PDF_PHOTO_WIDTH } }],
+      { base64: true, compress: 0.7, format: ImageManipulator.SaveFormat.JPEG }
+    );
+    FileSystem.deleteAsync(small.uri, { idempotent: true }).catch(() => {});
+    return small.base64 ? `data:image/jpeg;base64,${small.base64}` : url;
+  } catch (err) {
+    console.warn("⚠️ Could not embed photo in case file:", err);
+    return url;
+  } finally {
+    FileSystem.deleteAsync(local, { idempotent: true }).catch(() => {});
+  }
+}
+
+// One photo at a time: a few hundred full-size downloads in parallel would
+// exhaust memory on low-end phones.
+async function embedPhotos(reports: Report[]) {
+  const embedded = new Map<string, string>();
+  const perReport = pdfPhotoCount(reports.length);
+  for (const r of reports) {
+    for (const url of reportPhotos(r).slice(0, perReport)) {
+      if (!embedded.has(url)) embedded.set(url, await embedPhoto(url));
+    }
+  }
+  return (url: string) => embedded.get(url) ?? url;
+}
+
+// -------------------- Loading + sharing --------------------
+// Everything the current list filters match, not just the pages loaded so far.
+export async function fetchReportsForExport(
+  filters: ReportFilters,
+  opts: { userId?: string | null; origin?: Coords | null }
+): Promise<Report[]> {
+  const { data, error } = await buildReportsQuery(filters, opts).range(0, EXPORT_LIMIT - 1);
+  if (error) throw error;
+  return (data ?? []) as Report[];
+}
+
+function exportFileName(format: ExportFormat) {
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `reports-${stamp}.${FILE_TYPES[format].extension}`;
+}
+
+// Writes the file into the cache directory and opens the share sheet. Throws
+// when sharing is unavailable or writing fails; the caller tells the user.
+// Resolves with how many reports went into the file: a PDF stops at PDF_LIMIT.
+export async function exportReports(reports: Report[], format: ExportFormat) {
+  if (!(await Sharing.isAvailableAsync())) {
+    throw new Error("Sharing is not available on this device");
+  }
+
+  let uri: string;
+  if (format === "pdf") {
+    reports = reports.slice(0, PDF_LIMIT);
+    const html = reportsToHtml(reports, await embedPhotos(reports));
+    const printed = await Print.printToFileAsync({ html });
+    uri = `${FileSystem.cacheDirectory}${exportFileName(format)}`;
+    await FileSystem.moveAsync({ from: printed.uri, to: uri });
+  } else {
+    const body =
+      format === "csv"
+        ? reportsToCsv(reports)
+        : JSON.stringify(reportsToGeoJson(reports), null, 2);
+    uri = `${FileSystem.cacheDirectory}${exportFileName(format)}`;
+    await FileSystem.writeAsStringAsync(uri, body);
+  }
+
+  const { mimeType, UTI } = FILE_TYPES[format];
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: "Export reports" });
+  console.log(`✅ Exported ${reports.length} reports as ${format}`);
+  return reports.length;
+}
@@ -0,0 +1,127 @@
+import * as ImagePicker from "expo-image-picker";
+
+import { LocationFix } from "./integrity";
+import { compressPhoto, Coords } from "./reports";
+
+// -------------------- Gallery import --------------------
+// Photos taken earlier with the stock camera can be filed too. Where and when
+// they were taken comes from their EXIF block; without GPS in it the user
+// places a pin. Everything after that (geofence, upload, /analyze) is the same
+// path as a live capture, with the report marked `source: "imported"`.
+
+export type ImportedPhoto = {
+  uri: string; // compressed copy, like a live capture
+  takenAt: string | null; // from EXIF
+  exif: Record<string, unknown> | null;
+  coords: Coords | null; // from EXIF
+};
+
+// -------------------- EXIF parsing --------------------
+// Android flattens the tags (`GPSLatitude`, `DateTimeOriginal`); iOS nests
+// them under `{GPS}` / `{Exif}`. Coordinates come as decimal degrees or as
+// "d/1,m/1,s/100" rationals depending on the device.
+type Exif = Record<string, any>;
+
+function rational(text: string) {
+  const [num, den] = text.trim().split("/").map(Number);
+  return den ? num / den : num;
+}
+
+export function dmsToDegrees(value: unknown): number | null {
+  let parts: number[];
+  if (typeof value === "number") parts = [value];
+  else if (Array.isArray(value)) parts = value.map(Number);
+  else if (typeof value === "string") parts = value.split(",").map(rational);
+  else return null;
+  if (parts.length === 0 || parts.some((p) => !Number.isFinite(p))) return null;
+  const [d, m = 0, s = 0] = parts;
+  return Math.sign(d || 1) * (Math.abs(d) + m / 60 + s / 3600);
+}
+
+function signed(value: number, ref: unknown, negative: string) {
+  return typeof ref === "string" && ref.trim().toUpperCase().startsWith(negative)
+    ? -Math.abs(value)
+    : value;
+}
+
+export function exifCoords(exif: Exif | null | undefined): Coords | null {
+  if (!exif) return null;
+  const gps: Exif = exif["{GPS}"] ?? {};
+  const lat = dmsToDegrees(exif.GPSLatitude ?? gps.Latitude);
+  const lon = dmsToDegrees(exif.GPSLongitude ?? gps.Longitude);
+  if (lat == null || lon == null) return null;
+
+  const latitude = signed(lat, exif.GPSLatitudeRef ?? gps.LatitudeRef, "S");
+  const longitude = signed(lon, exif.GPSLongitudeRef ?? gps.LongitudeRef, "W");
+  // 0,0 is what some apps write when they had no fix.
+  if (latitude === 0 && longitude === 0) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { latitude, longitude };
+}
+
+// EXIF times are local wall-clock time; the offset tag, when present, pins
+// them down. Without it the phone's own time zone is assumed.
+export function exifTakenAt(exif: Exif | null | undefined): string | null {
+  if (!exif) return null;
+  const ex: Exif = exif["{Exif}"] ?? {};
+  const raw = exif.DateTimeOriginal ?? ex.DateTimeOriginal ?? exif.DateTime;
+  const m =
+    typeof raw === "string" && /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(raw);
+  if (!m) return null;
+  const [, Y, M, D, h, min, s] = m;
+
+  const offset = exif.OffsetTimeOriginal ?? ex.OffsetTimeOriginal;
+  const at =
+    typeof offset === "string" && /^[+-]\d{2}:\d{2}$/.test(offset)
+      ? new Date(`${Y}-${M}-${D}T${h}:${min}:${s}${offset}`)
+      : new Date(+Y, +M - 1, +D, +h, +min, +s);
+  return Number.isNaN(at.getTime()) ? null : at.toISOString();
+}
+
+// The stand-in for a live GPS fix. Accuracy is unknown for a pin, and for EXIF
+// unless the camera wrote its horizontal error. Without an EXIF time the fix
+// time stays unknown rather than claiming the moment of import.
+export function importedFix(
+  coords: Coords,
+  opts: { exif?: Exif | null; takenAt?: string | null } = {}
+): LocationFix {
+  const exif: Exif = opts.exif ?? {};
+  const gps: Exif = exif["{GPS}"] ?? {};
+  const num = (v: unknown) => (v == null || !Number.isFinite(Number(v)) ? null : Number(v));
+  return {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracyM: num(exif.GPSHPositioningError ?? gps.HPositioningError),
+    altitudeM: num(exif.GPSAltitude ?? gps.Altitude),
+    altitudeAccuracyM: null,
+    headingDeg: num(exif.GPSImgDirection ?? gps.ImgDirection),
+    mocked: false,
+    fixAt: opts.takenAt ?? null,
+  };
+}
+
+// -------------------- Picker --------------------
+// Empty when the user cancelled or denied access to the library.
+export async function pickFromGallery(limit: number): Promise<ImportedPhoto[]> {
+  const { granted } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!granted) return [];
+
+  const picked = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    allowsMultipleSelection: true,
+    selectionLimit: limit,
+    exif: true,
+    quality: 1,
+  });
+  if (picked.canceled) return [];
+
+  return Promise.all(
+    picked.assets.slice(0, limit).map(async (asset) => ({
+      // EXIF is read from the original: compressPhoto re-encodes without it.
+      uri: await compressPhoto(asset.uri, { width: asset.width, height: asset.height }),
+      takenAt: exifTakenAt(asset.exif),
+      exif: asset.exif ?? null,
+      coords: exifCoords(asset.exif),
+    }))
+  );
+}
@@ -0,0 +1,179 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { Coords } from "./reports";
+import { supabase } from "./supabase";
+
+// -------------------- Zone model --------------------
+// Zones live in the `geofence_zones` table, one row per ward/city area:
+//   id, name, city, kind, polygon (jsonb [[lat, lon], ...]), center_lat,
+//   center_lon, radius_m, buffer_m
+// A zone is either a polygon ring or a circle (center + radius).
+// `school-buffer` zones are prohibited inside the polygon and for `buffer_m`
+// meters around it.
+
+export type LatLon = { lat: number; lon: number };
+
+export type ZoneKind = "allowed" | "prohibited" | "school-buffer";
+
+export type Zone = {
+  id: string;
+  name: string;
+  kind: ZoneKind;
+  polygon?: LatLon[];
+  center?: LatLon;
+  radiusM?: number;
+  bufferM?: number;
+};
+
+export type GeofenceResult =
+  | { ok: true; zoneId: string }
+  | { ok: false; zoneId: string | null; reason: string };
+
+// -------------------- Cache CONFIG --------------------
+const CACHE_KEY = "geofence-zones:v1";
+const CACHE_TTL_MS = 6 * 60 * 60_000;
+const DEFAULT_BUFFER_M = 100;
+
+// Used until the first successful fetch; matches the original single circle.
+export const DEFAULT_ZONES: Zone[] = [
+  {
+    id: "default-bhubaneswar",
+    name: "Bhubaneswar",
+    kind: "allowed",
+    center: { lat: 20.2961, lon: 85.8245 },
+    radiusM: 1500,
+  },
+];
+
+// -------------------- Helpers: distance checks --------------------
+export function haversineMeters(a: LatLon, b: LatLon) {
+  const R = 6371000;
+  const dLat = ((b.lat - a.lat) * Math.PI) / 180;
+  const dLon = ((b.lon - a.lon) * Math.PI) / 180;
+  const lat1 = (a.lat * Math.PI) / 180;
+  const lat2 = (b.lat * Math.PI) / 180;
+  const sinDLat = Math.sin(dLat / 2),
+    sinDLon = Math.sin(dLon / 2);
+  const h = sinDLat * sinDLat + Math.cos(lat1) * Math.cos(lat2) * sinDLon * sinDLon;
+  return 2 * R * Math.asin(Math.sqrt(h));
+}
+
+// Ray casting on the lat/lon plane; fine at ward scale.
+export function pointInPolygon(p: LatLon, polygon: LatLon[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    const crosses =
+      a.lat > p.lat !== b.lat > p.lat &&
+      p.lon < ((b.lon - a.lon) * (p.lat - a.lat)) / (b.lat - a.lat) + a.lon;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// Closest point on each edge is found in a local equirectangular projection,
+// the distance to it is then measured with haversine.
+export function distanceToPolygonMeters(p: LatLon, polygon: LatLon[]) {
+  const kx = Math.cos((p.lat * Math.PI) / 180);
+  let best = Infinity;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[j];
+    const b = polygon[i];
+    const dx = (b.lon - a.lon) * kx;
+    const dy = b.lat - a.lat;
+    const len2 = dx * dx + dy * dy;
+    const t =
+      len2 === 0
+        ? 0
+        : Math.max(0, Math.min(1, (((p.lon - a.lon) * kx) * dx + (p.lat - a.lat) * dy) / len2));
+    const closest = { lat: a.lat + t * (b.lat - a.lat), lon: a.lon + t * (b.lon - a.lon) };
+    best = Math.min(best, haversineMeters(p, closest));
+  }
+  return best;
+}
+
+export function zoneContains(zone: Zone, p: LatLon) {
+  const buffer = zone.kind === "school-buffer" ? zone.bufferM ?? DEFAULT_BUFFER_M : 0;
+
+  if (zone.polygon && zone.polygon.length >= 3) {
+    if (pointInPolygon(p, zone.polygon)) return true;
+    return buffer > 0 && distanceToPolygonMeters(p, zone.polygon) <= buffer;
+  }
+  if (zone.center && zone.radiusM != null) {
+    return haversineMeters(p, zone.center) <= zone.radiusM + buffer;
+  }
+  return false;
+}
+
+export function checkGeofence(user: Coords, zones: Zone[] = getZones()): GeofenceResult {
+  const p = { lat: user.latitude, lon: user.longitude };
+  const matches = zones.filter((z) => zoneContains(z, p));
+
+  // Restrictions win over permissions when zones overlap.
+  const school = matches.find((z) => z.kind === "school-buffer");
+  if (school) return { ok: false, zoneId: school.id, reason: "Within school buffer zone" };
+  const prohibited = matches.find((z) => z.kind === "prohibited");
+  if (prohibited) return { ok: false, zoneId: prohibited.id, reason: "Inside prohibited zone" };
+  const allowed = matches.find((z) => z.kind === "allowed");
+  if (allowed) return { ok: true, zoneId: allowed.id };
+
+  return { ok: false, zoneId: null, reason: "Out of allowed zone" };
+}
+
+// -------------------- Loading + cache --------------------
+let zones: Zone[] | null = null;
+
+function fromRow(row: any): Zone | null {
+  const polygon = Array.isArray(row.polygon)
+    ? (row.polygon as [number, number][]).map(([lat, lon]) => ({ lat, lon }))
+    : undefined;
+  const center =
+    row.center_lat != null && row.center_lon != null
+      ? { lat: row.center_lat, lon: row.center_lon }
+      : undefined;
+  if (!polygon && !center) return null;
+
+  return {
+    id: String(row.id),
+    name: row.name ?? String(row.id),
+    kind: row.kind,
+    polygon,
+    center,
+    radiusM: row.radius_m ?? undefined,
+    bufferM: row.buffer_m ?? undefined,
+  };
+}
+
+export function getZones(): Zone[] {
+  return zones && zones.length > 0 ? zones : DEFAULT_ZONES;
+}
+
+// Serves the cached zones straight away and refreshes from Supabase when the
+// cache is stale. Offline, the last good copy (or the default) keeps working.
+export async function loadZones(opts?: { force?: boolean }): Promise<Zone[]> {
+  let fetchedAt = 0;
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const cached = JSON.parse(raw) as { fetchedAt: number; zones: Zone[] };
+      zones = cached.zones;
+      fetchedAt = cached.fetchedAt;
+    }
+  } catch (err) {
+    console.warn("⚠️ Could not read cached zones:", err);
+  }
+
+  if (!opts?.force && Date.now() - fetchedAt < CACHE_TTL_MS) return getZones();
+
+  try {
+    const { data, error } = await supabase.from("geofence_zones").select("*");
+    if (error) throw error;
+    zones = (data ?? []).map(fromRow).filter((z): z is Zone => z !== null);
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify({ fetchedAt: Date.now(), zones }));
+    console.log(`✅ Loaded ${zones.length} geofence zones`);
+  } catch (err) {
+    console.warn("⚠️ Zone refresh failed, using cached zones:", err);
+  }
+  return getZones();
+}
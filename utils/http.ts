@@ -0,0 +1,52 @@
+// fetch() in React Native reports no upload progress, so uploads that drive a
+// progress bar go through XMLHttpRequest instead.
+
+export type HttpResponse = { status: number; body: string };
+
+// Same shape as the DOMException fetch() rejects with, so callers can check `name`.
+export function abortError() {
+  return Object.assign(new Error("Aborted"), { name: "AbortError" });
+}
+
+export function xhrRequest(opts: {
+  method: string;
+  url: string;
+  body?: any;
+  headers?: Record<string, string>;
+  onProgress?: (fraction: number) => void;
+  signal?: AbortSignal;
+}): Promise<HttpResponse> {
+  return new Promise((resolve, reject) => {
+    if (opts.signal?.aborted) return reject(abortError());
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(opts.method, opts.url);
+    Object.entries(opts.headers ?? {}).forEach(([k, v]) => xhr.setRequestHeader(k, v));
+
+    if (opts.onProgress) {
+      xhr.upload.onprogress = (e) => {
+        if (e.lengthComputable && e.total > 0) opts.onProgress!(e.loaded / e.total);
+      };
+    }
+
+    const onAbort = () => xhr.abort();
+    opts.signal?.addEventListener("abort", onAbort);
+    const done = () => opts.signal?.removeEventListener("abort", onAbort);
+
+    xhr.onload = () => {
+      done();
+      opts.onProgress?.(1);
+      resolve({ status: xhr.status, body: xhr.responseText });
+    };
+    xhr.onerror = () => {
+      done();
+      reject(new Error(`Network request failed: ${opts.method} ${opts.url}`));
+    };
+    xhr.onabort = () => {
+      done();
+      reject(abortError());
+    };
+
+    xhr.send(opts.body);
+  });
+}
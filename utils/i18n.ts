@@ -0,0 +1,113 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Localization from "expo-localization";
+import { useEffect, useState } from "react";
+
+import en, { MessageKey, Messages } from "../constants/locales/en";
+import hi from "../constants/locales/hi";
+import or from "../constants/locales/or";
+
+// -------------------- Catalogs --------------------
+export type Locale = "en" | "hi" | "or";
+
+export const LOCALES: { id: Locale; name: string }[] = [
+  { id: "en", name: "English" },
+  { id: "hi", name: "हिन्दी" },
+  { id: "or", name: "ଓଡ଼ିଆ" },
+];
+
+const CATALOGS: Record<Locale, Messages> = { en, hi, or };
+
+// Dates are formatted for India whatever the language.
+const DATE_TAGS: Record<Locale, string> = { en: "en-IN", hi: "hi-IN", or: "or-IN" };
+
+const STORAGE_KEY = "locale:v1";
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && value in CATALOGS;
+}
+
+// First device language we have a catalog for, English otherwise.
+export function detectLocale(): Locale {
+  for (const { languageCode } of Localization.getLocales()) {
+    if (isLocale(languageCode)) return languageCode;
+  }
+  return "en";
+}
+
+// -------------------- Current locale --------------------
+let override: Locale | null = null; // null = follow the device
+let current: Locale = detectLocale();
+const listeners = new Set<(locale: Locale) => void>();
+
+function apply(next: Locale) {
+  current = next;
+  listeners.forEach((l) => l(next));
+}
+
+export function getLocale() {
+  return current;
+}
+
+export function getLocaleOverride() {
+  return override;
+}
+
+// Call once at startup, before the first screen renders text.
+export async function loadLocale() {
+  try {
+    const saved = await AsyncStorage.getItem(STORAGE_KEY);
+    override = isLocale(saved) ? saved : null;
+  } catch (err) {
+    console.warn("⚠️ Could not read saved language:", err);
+  }
+  apply(override ?? detectLocale());
+  return current;
+}
+
+// Pass null to go back to the device language.
+export async function setLocale(locale: Locale | null) {
+  override = locale;
+  apply(locale ?? detectLocale());
+  if (locale) await AsyncStorage.setItem(STORAGE_KEY, locale);
+  else await AsyncStorage.removeItem(STORAGE_KEY);
+}
+
+export function subscribeLocale(listener: (locale: Locale) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Re-renders the calling component when the language changes.
+export function useLocale() {
+  const [locale, setLocaleState] = useState(current);
+  useEffect(() => {
+    setLocaleState(current);
+    return subscribeLocale(setLocaleState);
+  }, []);
+  return locale;
+}
+
+// -------------------- Lookup & formatting --------------------
+export type MessageParams = Record<string, string | number>;
+
+// `locale` pins one language regardless of the user's choice, e.g. for
+// exported evidence, which is always in English.
+export function t(key: MessageKey, params?: MessageParams, locale: Locale = current) {
+  const template = CATALOGS[locale][key] ?? en[key] ?? key;
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) =>
+    params[name] != null ? String(params[name]) : match
+  );
+}
+
+export function formatDateTime(value: string | number | Date) {
+  return new Date(value).toLocaleString(DATE_TAGS[current]);
+}
+
+export function formatDate(value: string | number | Date) {
+  return new Date(value).toLocaleDateString(DATE_TAGS[current]);
+}
+
+export type { MessageKey };
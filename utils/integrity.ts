@@ -0,0 +1,120 @@
+import { decode as atob } from "base-64";
+import * as Crypto from "expo-crypto";
+import * as FileSystem from "expo-file-system";
+import * as Location from "expo-location";
+
+import type { PhotoQuality } from "./captureQuality";
+
+// -------------------- Capture integrity --------------------
+// Evidence has to hold up later: every report carries the raw GPS fix, the
+// device clock, the camera's EXIF block and a SHA-256 of each uploaded photo.
+
+// Fixes worse than this are flagged; the inspector must confirm to send them.
+export const MAX_ACCURACY_M = 50;
+const FIX_TIMEOUT_MS = 15_000;
+
+export type LocationFix = {
+  latitude: number;
+  longitude: number;
+  accuracyM: number | null;
+  altitudeM: number | null;
+  altitudeAccuracyM: number | null;
+  headingDeg: number | null;
+  mocked: boolean;
+  fixAt: string | null; // when the GPS fix was taken; null for imports without an EXIF time
+};
+
+// "poor-photo": a guided-capture quality warning was overridden for some photo.
+// "exif-location" / "manual-location": an imported report located from the
+// photo's EXIF or from a pin the user placed, not from a live fix.
+// "unknown-time": an imported photo had no EXIF time; time rules were skipped.
+export type CaptureFlag =
+  | "low-accuracy"
+  | "poor-photo"
+  | "exif-location"
+  | "manual-location"
+  | "unknown-time";
+
+// Stored on the report row as `capture` (jsonb). Arrays follow the photo order.
+export type CaptureInfo = {
+  fix: LocationFix;
+  deviceTime: string; // device clock when the report was submitted
+  takenAt: (string | null)[]; // null: imported without an EXIF time
+  sha256: string[];
+  phash?: (string | null)[]; // perceptual hashes for duplicate matching (see duplicates.ts)
+  quality?: (PhotoQuality | null)[]; // guided-capture checks (see captureQuality.ts)
+  exif: (Record<string, unknown> | null)[];
+  flags: CaptureFlag[];
+};
+
+export type FixCheck =
+  | { ok: true }
+  | { ok: false; reason: "mocked" | "low-accuracy"; message: string };
+
+// Returns null when no fix could be had; callers must not invent coordinates.
+export async function readLocationFix(): Promise<LocationFix | null> {
+  let loc: Location.LocationObject;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    loc = await Promise.race([
+      Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.High }),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error("timed out")), FIX_TIMEOUT_MS);
+      }),
+    ]);
+  } catch (err) {
+    console.warn("⚠️ Location fetch failed:", err);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+
+  const { coords } = loc;
+  return {
+    latitude: coords.latitude,
+    longitude: coords.longitude,
+    accuracyM: coords.accuracy,
+    altitudeM: coords.altitude,
+    altitudeAccuracyM: coords.altitudeAccuracy,
+    headingDeg: coords.heading != null && coords.heading >= 0 ? coords.heading : null,
+    mocked: !!loc.mocked,
+    fixAt: new Date(loc.timestamp).toISOString(),
+  };
+}
+
+export function checkLocationFix(fix: LocationFix, maxAccuracyM = MAX_ACCURACY_M): FixCheck {
+  if (fix.mocked) {
+    return { ok: false, reason: "mocked", message: "The location comes from a mock provider" };
+  }
+  if (fix.accuracyM == null || fix.accuracyM > maxAccuracyM) {
+    const accuracy = fix.accuracyM == null ? "unknown" : `±${Math.round(fix.accuracyM)} m`;
+    return {
+      ok: false,
+      reason: "low-accuracy",
+      message: `GPS accuracy is ${accuracy} (needs ±${maxAccuracyM} m or better)`,
+    };
+  }
+  return { ok: true };
+}
+
+function toHex(buffer: ArrayBuffer) {
+  return Array.from(new Uint8Array(buffer), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// Hashes the exact bytes that get uploaded (the compressed JPEG). The file has
+// to be read whole, so the bytes go straight into one typed array.
+export async function hashPhoto(uri: string) {
+  const binary = atob(
+    await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 })
+  );
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return toHex(await Crypto.digest(Crypto.CryptoDigestAlgorithm.SHA256, bytes));
+}
+
+// One photo at a time, so a bundle never holds several decoded files at once.
+export async function hashPhotos(uris: string[]) {
+  const hashes: string[] = [];
+  for (const uri of uris) hashes.push(await hashPhoto(uri));
+  return hashes;
+}
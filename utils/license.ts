@@ -0,0 +1,95 @@
+import { decode as atob } from "base-64";
+import nacl from "tweetnacl";
+
+import { LICENSE_PUBLIC_KEYS } from "../constants/LicenseKey";
+
+// -------------------- Billboard license QR format --------------------
+//   BBL1.<payload>.<signature>
+// payload   base64url of UTF-8 JSON:
+//           { "lic": "BBSR/2024/00123", "agency": "...", "size": "6x3", "exp": "2025-12-31" }
+//           (size is width x height in meters, exp is the last valid day)
+// signature base64url Ed25519 signature over the ASCII bytes of "BBL1.<payload>"
+
+const PREFIX = "BBL1";
+
+export type License = {
+  number: string;
+  agency: string;
+  size: { widthM: number; heightM: number } | null;
+  expiresOn: string; // YYYY-MM-DD
+};
+
+export type LicenseCheck =
+  | { status: "valid"; license: License }
+  | { status: "expired"; license: License }
+  | { status: "forged"; license: License }
+  | { status: "malformed"; reason: string }
+  | { status: "unrecognized" };
+
+function base64UrlToBytes(text: string) {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = b64 + "=".repeat((4 - (b64.length % 4)) % 4);
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+function asciiBytes(text: string) {
+  return Uint8Array.from(text, (c) => c.charCodeAt(0) & 0xff);
+}
+
+function utf8Decode(bytes: Uint8Array) {
+  return decodeURIComponent(
+    Array.from(bytes, (b) => `%${b.toString(16).padStart(2, "0")}`).join("")
+  );
+}
+
+function parseSize(size: unknown) {
+  if (typeof size !== "string") return null;
+  const m = size.trim().match(/^(\d+(?:\.\d+)?)\s*[x×]\s*(\d+(?:\.\d+)?)$/i);
+  return m ? { widthM: Number(m[1]), heightM: Number(m[2]) } : null;
+}
+
+function today(now: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
+
+export function checkLicenseQr(
+  data: string,
+  opts?: { publicKeys?: string[]; now?: Date }
+): LicenseCheck {
+  const parts = data.trim().split(".");
+  if (parts[0] !== PREFIX) return { status: "unrecognized" };
+  if (parts.length !== 3) return { status: "malformed", reason: "Unexpected number of sections" };
+
+  let license: License;
+  try {
+    const json = JSON.parse(utf8Decode(base64UrlToBytes(parts[1])));
+    if (typeof json.lic !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(json.exp ?? "")) {
+      return { status: "malformed", reason: "Missing license number or expiry" };
+    }
+    license = {
+      number: json.lic,
+      agency: typeof json.agency === "string" ? json.agency : "",
+      size: parseSize(json.size),
+      expiresOn: json.exp,
+    };
+  } catch {
+    return { status: "malformed", reason: "Payload is not readable" };
+  }
+
+  let signature: Uint8Array;
+  try {
+    signature = base64UrlToBytes(parts[2]);
+  } catch {
+    return { status: "forged", license };
+  }
+  const message = asciiBytes(`${parts[0]}.${parts[1]}`);
+  const keys = (opts?.publicKeys ?? LICENSE_PUBLIC_KEYS).map(base64UrlToBytes);
+  const signed =
+    signature.length === nacl.sign.signatureLength &&
+    keys.some((key) => nacl.sign.detached.verify(message, signature, key));
+  if (!signed) return { status: "forged", license };
+
+  if (license.expiresOn < today(opts?.now ?? new Date())) return { status: "expired", license };
+  return { status: "valid", license };
+}
@@ -0,0 +1,52 @@
+import { Report } from "./reports";
+
+export type Region = {
+  latitude: number;
+  longitude: number;
+  latitudeDelta: number;
+  longitudeDelta: number;
+};
+
+export type MappedReport = Report & { lat: number; lon: number };
+
+export type Cluster =
+  | { type: "point"; key: string; report: MappedReport }
+  | { type: "cluster"; key: string; latitude: number; longitude: number; reports: MappedReport[] };
+
+// Cells across the visible width; roughly one cluster bubble per thumb width.
+const GRID_COLUMNS = 8;
+
+// Grid clustering: reports falling in the same screen cell are merged. Cells are
+// anchored to whole multiples of the cell size so bubbles don't jump while panning.
+export function clusterReports(reports: MappedReport[], region: Region): Cluster[] {
+  const cell = region.longitudeDelta / GRID_COLUMNS;
+  if (!(cell > 0)) return reports.map((r) => ({ type: "point", key: r.id, report: r }));
+
+  const buckets = new Map<string, MappedReport[]>();
+  for (const r of reports) {
+    const key = `${Math.floor(r.lat / cell)}:${Math.floor(r.lon / cell)}`;
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(r);
+    else buckets.set(key, [r]);
+  }
+
+  return Array.from(buckets, ([key, items]): Cluster => {
+    if (items.length === 1) return { type: "point", key: items[0].id, report: items[0] };
+    return {
+      type: "cluster",
+      key,
+      latitude: items.reduce((sum, r) => sum + r.lat, 0) / items.length,
+      longitude: items.reduce((sum, r) => sum + r.lon, 0) / items.length,
+      reports: items,
+    };
+  });
+}
+
+export function regionBounds(region: Region) {
+  return {
+    south: region.latitude - region.latitudeDelta / 2,
+    north: region.latitude + region.latitudeDelta / 2,
+    west: region.longitude - region.longitudeDelta / 2,
+    east: region.longitude + region.longitudeDelta / 2,
+  };
+}
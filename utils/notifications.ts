@@ -0,0 +1,282 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as Notifications from "expo-notifications";
+import { useEffect, useState } from "react";
+import { Platform } from "react-native";
+
+import { t } from "./i18n";
+import { ReportChange, subscribeReportChanges } from "./realtime";
+import { classifyReport, statusLabel } from "./reportResult";
+import { Report } from "./reports";
+import { supabase } from "./supabase";
+
+// -------------------- Status changes --------------------
+// A reporter hears back once, when their report leaves `pending`: either the
+// backend settled it or a reviewer decided (the review outcome counts as the
+// status from then on, see reviews.ts).
+
+type StatusFields = Pick<Report, "status" | "review_status">;
+
+export function effectiveStatus(report: StatusFields) {
+  return report.review_status ?? report.status ?? "pending";
+}
+
+export function isFinalStatus(status: string) {
+  return status !== "pending" && status !== "queued";
+}
+
+export function statusNotification(report: Pick<Report, "status" | "message" | "review_status" | "address">) {
+  const status = report.review_status
+    ? t(`reviewed.${report.review_status}`)
+    : statusLabel(classifyReport(report.status, report.message));
+  return {
+    title: t("notify.title"),
+    body: report.address ? t("notify.bodyAt", { status, address: report.address }) : status,
+  };
+}
+
+// -------------------- Preferences --------------------
+// Notifications are on unless the signed-in user turned them off on this
+// device. Kept per user so a shared phone respects each inspector's choice.
+const PREFS_KEY = "notification-prefs:v1";
+
+let optedOut: Record<string, true> = {};
+const listeners = new Set<() => void>();
+
+export async function loadNotificationPrefs() {
+  try {
+    const raw = await AsyncStorage.getItem(PREFS_KEY);
+    optedOut = raw ? JSON.parse(raw) : {};
+  } catch (err) {
+    console.warn("⚠️ Could not read notification settings:", err);
+  }
+}
+
+export function notificationsEnabled(userId: string | null) {
+  return !!userId && !optedOut[userId];
+}
+
+export async function setNotificationsEnabled(userId: string, enabled: boolean) {
+  const { [userId]: _, ...rest } = optedOut;
+  optedOut = enabled ? rest : { ...rest, [userId]: true };
+  listeners.forEach((l) => l());
+  await AsyncStorage.setItem(PREFS_KEY, JSON.stringify(optedOut));
+  // Whatever settles while opted out should not arrive in a burst later.
+  if (!enabled) await AsyncStorage.removeItem(WATCH_KEY);
+
+  // Tell the backend too, so it stops pushing to this user's devices.
+  const { error } = await supabase.from("push_tokens").update({ enabled }).eq("user_id", userId);
+  if (error) console.warn("⚠️ Could not update push token setting:", error);
+}
+
+export function useNotificationsEnabled(userId: string | null) {
+  const [enabled, setEnabled] = useState(notificationsEnabled(userId));
+  useEffect(() => {
+    const update = () => setEnabled(notificationsEnabled(userId));
+    update();
+    listeners.add(update);
+    return () => {
+      listeners.delete(update);
+    };
+  }, [userId]);
+  return enabled;
+}
+
+// -------------------- Device setup --------------------
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowAlert: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+const CHANNEL_ID = "report-status";
+
+async function ensurePermission() {
+  if (Platform.OS === "android") {
+    await Notifications.setNotificationChannelAsync(CHANNEL_ID, {
+      name: "Report status",
+      importance: Notifications.AndroidImportance.DEFAULT,
+    });
+  }
+  const current = await Notifications.getPermissionsAsync();
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await Notifications.requestPermissionsAsync()).granted;
+}
+
+async function showStatusNotification(report: Report) {
+  try {
+    await Notifications.scheduleNotificationAsync({
+      content: { ...statusNotification(report), data: { reportId: report.id } },
+      trigger: Platform.OS === "android" ? { channelId: CHANNEL_ID } : null,
+    });
+  } catch (err) {
+    console.warn("⚠️ Could not show status notification:", err);
+  }
+}
+
+// Calls back with the report id when the user taps one of our notifications,
+// including the one that cold-started the app.
+export function onNotificationOpened(open: (reportId: string) => void) {
+  const handle = (response: Notifications.NotificationResponse | null) => {
+    const id = response?.notification.request.content.data?.reportId;
+    if (typeof id === "string") open(id);
+  };
+  Notifications.getLastNotificationResponseAsync().then(handle).catch(() => {});
+  const sub = Notifications.addNotificationResponseReceivedListener(handle);
+  return () => sub.remove();
+}
+
+// -------------------- Push token --------------------
+// Stored in `push_tokens` so the backend can notify users itself later. One row
+// per device token; signing in as someone else on the same phone moves it.
+let registeredToken: string | null = null;
+
+export async function registerPushToken(userId: string): Promise<string | null> {
+  try {
+    if (!(await ensurePermission())) return null;
+    // The project id comes from `extra.eas.projectId` in app.json.
+    const { data: token } = await Notifications.getExpoPushTokenAsync();
+    const { error } = await supabase.from("push_tokens").upsert(
+      {
+        token,
+        user_id: userId,
+        platform: Platform.OS,
+        enabled: notificationsEnabled(userId),
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "token" }
+    );
+    if (error) throw error;
+    registeredToken = token;
+    console.log("✅ Registered push token");
+    return token;
+  } catch (err) {
+    // Simulators and builds without push credentials land here; local
+    // notifications keep working without a token.
+    console.warn("⚠️ Push token registration failed:", err);
+    return null;
+  }
+}
+
+// Called on sign-out so the next user of the device does not get these pushes.
+export async function unregisterPushToken() {
+  if (!registeredToken) return;
+  const { error } = await supabase.from("push_tokens").delete().eq("token", registeredToken);
+  if (error) console.warn("⚠️ Could not remove push token:", error);
+  registeredToken = null;
+}
+
+// -------------------- Local stand-in service --------------------
+// Until the backend sends pushes, the app watches the user's own reports over
+// realtime and raises the notification itself. Realtime update events do not
+// carry the previous row, so the ids last seen pending are kept on the device;
+// that also lets changes made while the app was closed be announced on launch.
+const WATCH_KEY = "notify-pending:v1";
+
+type WatchState = { userId: string; ids: string[] };
+
+// Reports the capture screen is waiting on: it shows their result itself, so
+// the notifier stays quiet when they settle. Unmarked again when the screen
+// gives up waiting (the report went to the outbox instead).
+const shownInApp = new Set<string>();
+
+export function markSubmitted(id: string) {
+  shownInApp.add(id);
+}
+
+export function unmarkSubmitted(id: string) {
+  shownInApp.delete(id);
+}
+
+// Realtime is subscribed before the catch-up queries so nothing that changes
+// in between is lost; its events are held until the catch-up has replaced the
+// watched ids, then replayed in order.
+export function startStatusNotifier(userId: string) {
+  let stopped = false;
+  let pending = new Set<string>();
+  let buffered: ReportChange[] | null = [];
+  const announced = new Set<string>(); // during catch-up, so a replay does not repeat it
+
+  const persist = () => {
+    const state: WatchState = { userId, ids: [...pending] };
+    AsyncStorage.setItem(WATCH_KEY, JSON.stringify(state)).catch((err) =>
+      console.warn("⚠️ Could not save watched reports:", err)
+    );
+  };
+
+  const announce = (row: Report) => {
+    if (shownInApp.delete(row.id) || announced.has(row.id)) return;
+    showStatusNotification(row);
+  };
+
+  const onChange = (change: ReportChange) => {
+    if (buffered) {
+      buffered.push(change);
+      return;
+    }
+    if (change.eventType === "DELETE") {
+      const id = (change.old as Partial<Report>).id;
+      if (id && pending.delete(id)) persist();
+      return;
+    }
+    const row = change.new;
+    if (!isFinalStatus(effectiveStatus(row))) {
+      if (!pending.has(row.id)) {
+        pending.add(row.id);
+        persist();
+      }
+    } else if (pending.delete(row.id)) {
+      persist();
+      announce(row);
+    }
+  };
+
+  const unsubscribe = subscribeReportChanges("notify", onChange, { userId });
+
+  (async () => {
+    try {
+      const raw = await AsyncStorage.getItem(WATCH_KEY);
+      const saved: WatchState | null = raw ? JSON.parse(raw) : null;
+      // Offline, the saved ids are kept as they are and checked next launch.
+      if (saved?.userId === userId) pending = new Set(saved.ids);
+
+      // Anything that settled while the app was closed.
+      if (pending.size > 0) {
+        const { data, error } = await supabase.from("reports").select("*").in("id", [...pending]);
+        if (error) throw error;
+        for (const row of (data ?? []) as Report[]) {
+          if (stopped || !isFinalStatus(effectiveStatus(row))) continue;
+          pending.delete(row.id);
+          announce(row);
+          announced.add(row.id);
+        }
+        persist();
+      }
+
+      const { data, error } = await supabase
+        .from("reports")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("status", "pending")
+        .is("review_status", null);
+      if (error) throw error;
+      if (stopped) return;
+      pending = new Set((data ?? []).map((r: { id: string }) => r.id));
+      persist();
+    } catch (err) {
+      console.warn("⚠️ Could not catch up on report statuses:", err);
+    }
+    if (stopped) return;
+    const held = buffered ?? [];
+    buffered = null;
+    held.forEach(onChange);
+    announced.clear();
+  })();
+
+  return () => {
+    stopped = true;
+    unsubscribe();
+  };
+}
@@ -0,0 +1,261 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import NetInfo from "@react-native-community/netinfo";
+import * as FileSystem from "expo-file-system";
+import { useEffect, useState } from "react";
+
+import { Annotations } from "./annotations";
+import { CaptureInfo } from "./integrity";
+import { Coords, ReportSource, requestAnalysis, submitReport } from "./reports";
+import { RuleVerdict } from "./rules";
+
+// -------------------- Outbox CONFIG --------------------
+const STORAGE_KEY = "outbox:v1";
+const PHOTO_DIR = `${FileSystem.documentDirectory}outbox/`;
+const BASE_DELAY_MS = 5_000;
+const MAX_DELAY_MS = 30 * 60_000;
+
+export type OutboxItem = {
+  id: string;
+  photoUris: string[];
+  lat: number;
+  lon: number;
+  address: string;
+  qrValue: string | null;
+  userId: string | null;
+  zoneId?: string | null;
+  annotations?: Annotations | null;
+  capture?: CaptureInfo | null;
+  ruleVerdicts?: RuleVerdict[] | null;
+  source?: ReportSource; // missing on items queued before imports existed
+  status: string;
+  message: string | null;
+  createdAt: string;
+  // Filled in once the storage uploads + row insert went through, so a retry
+  // only repeats the /analyze call instead of uploading the photos twice.
+  imageUrl: string | null;
+  reportId: string | null;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+};
+
+export type OutboxDraft = {
+  photoUris: string[];
+  coords: Coords;
+  address: string;
+  qrValue: string | null;
+  userId: string | null;
+  zoneId: string | null;
+  annotations: Annotations | null;
+  capture: CaptureInfo | null;
+  ruleVerdicts: RuleVerdict[];
+  source: ReportSource;
+  status: string;
+  message: string | null;
+  imageUrl?: string | null;
+  reportId?: string | null;
+};
+
+let items: OutboxItem[] | null = null;
+let flushing = false;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(items: OutboxItem[]) => void>();
+
+// -------------------- Persistence --------------------
+async function load(): Promise<OutboxItem[]> {
+  if (items) return items;
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    items = raw ? (JSON.parse(raw) as any[]).map(upgrade) : [];
+  } catch (err) {
+    console.warn("⚠️ Could not read outbox:", err);
+    items = [];
+  }
+  return items;
+}
+
+// Items queued before multi-photo reports carry a single `photoUri`.
+function upgrade(item: any): OutboxItem {
+  if (Array.isArray(item.photoUris)) return item;
+  const { photoUri, ...rest } = item;
+  return { ...rest, photoUris: photoUri ? [photoUri] : [] };
+}
+
+async function save(next: OutboxItem[]) {
+  items = next;
+  listeners.forEach((l) => l(next));
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+}
+
+async function update(id: string, patch: Partial<OutboxItem>) {
+  const current = await load();
+  await save(current.map((it) => (it.id === id ? { ...it, ...patch } : it)));
+}
+
+async function remove(item: OutboxItem) {
+  const current = await load();
+  await save(current.filter((it) => it.id !== item.id));
+  await Promise.all(
+    item.photoUris.map((uri) => FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {}))
+  );
+}
+
+export function backoffDelay(attempts: number) {
+  return Math.min(BASE_DELAY_MS * 2 ** attempts, MAX_DELAY_MS);
+}
+
+// -------------------- Public API --------------------
+export async function getOutbox() {
+  return load();
+}
+
+export async function enqueueReport(draft: OutboxDraft): Promise<OutboxItem> {
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  // Camera captures live in the cache dir, which the OS may purge while we wait.
+  await FileSystem.makeDirectoryAsync(PHOTO_DIR, { intermediates: true }).catch(() => {});
+  const photoUris = draft.photoUris.map((_, i) => `${PHOTO_DIR}${id}-${i + 1}.jpg`);
+  await Promise.all(
+    draft.photoUris.map((from, i) => FileSystem.copyAsync({ from, to: photoUris[i] }))
+  );
+
+  const item: OutboxItem = {
+    id,
+    photoUris,
+    lat: draft.coords.latitude,
+    lon: draft.coords.longitude,
+    address: draft.address,
+    qrValue: draft.qrValue,
+    userId: draft.userId,
+    zoneId: draft.zoneId,
+    annotations: draft.annotations,
+    capture: draft.capture,
+    ruleVerdicts: draft.ruleVerdicts,
+    source: draft.source,
+    status: draft.status,
+    message: draft.message,
+    createdAt: new Date().toISOString(),
+    imageUrl: draft.imageUrl ?? null,
+    reportId: draft.reportId ?? null,
+    attempts: 0,
+    nextAttemptAt: Date.now() + BASE_DELAY_MS,
+    lastError: null,
+  };
+
+  const current = await load();
+  await save([item, ...current]);
+  console.log("📥 Queued report for later sync:", id);
+  scheduleRetry();
+  return item;
+}
+
+export function subscribeOutbox(listener: (items: OutboxItem[]) => void) {
+  listeners.add(listener);
+  load().then(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function useOutbox() {
+  const [queued, setQueued] = useState<OutboxItem[]>(items ?? []);
+  useEffect(() => subscribeOutbox(setQueued), []);
+  return queued;
+}
+
+// -------------------- Sync --------------------
+async function syncItem(item: OutboxItem) {
+  const coords = { latitude: item.lat, longitude: item.lon };
+
+  if (!item.imageUrl) {
+    const result = await submitReport({
+      photoUris: item.photoUris,
+      coords,
+      address: item.address,
+      status: item.status,
+      message: item.message,
+      userId: item.userId,
+      zoneId: item.zoneId ?? null,
+      qrValue: item.qrValue,
+      annotations: item.annotations ?? null,
+      capture: item.capture ?? null,
+      ruleVerdicts: item.ruleVerdicts ?? [],
+      source: item.source ?? "camera",
+    });
+    if (!result.url) throw new Error("Upload failed");
+    await update(item.id, { imageUrl: result.url, reportId: result.id });
+    if (!result.analysis) throw new Error("Analyze request failed");
+    return;
+  }
+
+  const data = await requestAnalysis({
+    imageUrl: item.imageUrl,
+    coords,
+    qrValue: item.qrValue,
+    annotations: item.annotations ?? null,
+    capture: item.capture ?? null,
+    ruleVerdicts: item.ruleVerdicts ?? null,
+    source: item.source ?? "camera",
+    reportId: item.reportId,
+  });
+  if (!data) throw new Error("Analyze request failed");
+}
+
+export async function flushOutbox(opts?: { force?: boolean }) {
+  if (flushing) return;
+  flushing = true;
+  try {
+    const now = Date.now();
+    const due = (await load()).filter((it) => opts?.force || it.nextAttemptAt <= now);
+
+    for (const item of due) {
+      try {
+        await syncItem(item);
+        await remove(item);
+        console.log("✅ Synced queued report:", item.id);
+      } catch (err: any) {
+        const attempts = item.attempts + 1;
+        await update(item.id, {
+          attempts,
+          nextAttemptAt: Date.now() + backoffDelay(attempts),
+          lastError: err?.message ?? String(err),
+        });
+        console.warn(`⚠️ Sync of ${item.id} failed (attempt ${attempts}):`, err);
+      }
+    }
+  } finally {
+    flushing = false;
+    scheduleRetry();
+  }
+}
+
+function scheduleRetry() {
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!items || items.length === 0) return;
+
+  const next = Math.min(...items.map((it) => it.nextAttemptAt));
+  retryTimer = setTimeout(() => {
+    retryTimer = null;
+    flushOutbox();
+  }, Math.max(next - Date.now(), 0));
+}
+
+// Call once from the root layout. Retries on the backoff schedule while the app
+// is open and flushes everything right away whenever connectivity comes back.
+export function startOutboxSync() {
+  let wasOnline = true;
+  const unsubscribe = NetInfo.addEventListener((state) => {
+    const online = !!state.isConnected && state.isInternetReachable !== false;
+    if (online && !wasOnline) flushOutbox({ force: true });
+    wasOnline = online;
+  });
+
+  load().then(() => flushOutbox());
+
+  return () => {
+    unsubscribe();
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+  };
+}
@@ -0,0 +1,48 @@
+import { abortError } from "./http";
+
+// -------------------- Report pipeline --------------------
+// A submission runs through these stages in order. Every stage honours the
+// AbortSignal; whatever was already written remotely is removed on cancel.
+export type Stage =
+  | "capture"
+  | "locate"
+  | "geocode"
+  | "dedupe"
+  | "upload"
+  | "insert"
+  | "analyze";
+
+export const STAGES: Stage[] = [
+  "capture",
+  "locate",
+  "geocode",
+  "dedupe",
+  "upload",
+  "insert",
+  "analyze",
+];
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw abortError();
+}
+
+// For native calls that cannot be cancelled (GPS, geocoder, hashing): stop
+// waiting as soon as the signal fires and let the result be dropped.
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(abortError());
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(abortError());
+    signal.addEventListener("abort", onAbort);
+    promise.then(
+      (value) => {
+        signal.removeEventListener("abort", onAbort);
+        resolve(value);
+      },
+      (err) => {
+        signal.removeEventListener("abort", onAbort);
+        reject(err);
+      }
+    );
+  });
+}
@@ -0,0 +1,36 @@
+import { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+
+import { Report } from "./reports";
+import { supabase } from "./supabase";
+
+export type ReportChange = RealtimePostgresChangesPayload<Report>;
+
+// Subscribes to inserts/updates/deletes on `reports` (the table must be in the
+// `supabase_realtime` publication). Returns an unsubscribe function; call it when
+// the screen loses focus and subscribe again on focus for a clean reconnect.
+export function subscribeReportChanges(
+  name: string,
+  onChange: (change: ReportChange) => void,
+  opts?: { userId?: string | null; onStatus?: (status: string) => void }
+) {
+  const channel = supabase
+    .channel(`reports:${name}:${Date.now()}`)
+    .on<Report>(
+      "postgres_changes",
+      {
+        event: "*",
+        schema: "public",
+        table: "reports",
+        ...(opts?.userId ? { filter: `user_id=eq.${opts.userId}` } : {}),
+      },
+      onChange
+    )
+    .subscribe((status, err) => {
+      if (err) console.warn(`⚠️ Realtime ${name} ${status}:`, err);
+      opts?.onStatus?.(status);
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
@@ -0,0 +1,307 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import * as FileSystem from "expo-file-system";
+import * as ImageManipulator from "expo-image-manipulator";
+import { useCallback, useEffect, useRef, useState } from "react";
+
+import { buildReportsQuery, ReportFilters } from "./reportFilters";
+import { Coords, Report, reportPhotos } from "./reports";
+
+// -------------------- Cursor pagination --------------------
+// Pages continue after the last loaded row in (created_at, id) order, so rows
+// inserted at the top while the user scrolls neither shift later pages nor show
+// up twice, as they did with `range` offsets. "Nearest" is ordered by distance,
+// which has no stable cursor; it still pages by offset.
+export const PAGE_SIZE = 12;
+
+export type ReportCursor = { createdAt: string; id: string };
+
+export function cursorAfter(rows: Report[]): ReportCursor | null {
+  const last = rows[rows.length - 1];
+  return last ? { createdAt: last.created_at, id: last.id } : null;
+}
+
+// PostgREST `or` filter for rows strictly past the cursor. Timestamps are
+// quoted: their `:` and `+` would otherwise be read as syntax.
+export function cursorFilter(cursor: ReportCursor, ascending: boolean) {
+  const op = ascending ? "gt" : "lt";
+  const at = `"${cursor.createdAt}"`;
+  return `created_at.${op}.${at},and(created_at.eq.${at},id.${op}.${cursor.id})`;
+}
+
+export async function fetchReportsPage(
+  filters: ReportFilters,
+  opts: { userId?: string | null; origin?: Coords | null; loaded?: Report[] }
+): Promise<Report[]> {
+  const loaded = opts.loaded ?? [];
+  const query = buildReportsQuery(filters, opts);
+  const byDistance = filters.sort === "nearest" && !!opts.origin;
+  const cursor = cursorAfter(loaded);
+
+  const { data, error } = byDistance
+    ? await query.range(loaded.length, loaded.length + PAGE_SIZE - 1)
+    : await (cursor ? query.or(cursorFilter(cursor, filters.sort === "oldest")) : query).limit(
+        PAGE_SIZE
+      );
+  if (error) throw error;
+  return (data ?? []) as Report[];
+}
+
+// -------------------- On-device cache --------------------
+// The first rows of the last few lists the user opened (scope + filters), so
+// the Reports tab can show something at once and while offline. Each list is
+// its own AsyncStorage entry to stay clear of per-entry size limits; the index
+// keeps them in most-recently-used order.
+const INDEX_KEY = "report-cache:v1";
+const LIST_PREFIX = "report-cache:v1:";
+const THUMB_DIR = `${FileSystem.documentDirectory}report-thumbs/`;
+const MAX_LISTS = 4;
+const MAX_ROWS = 48;
+const THUMB_WIDTH = 160;
+
+export type CachedList = { rows: Report[]; endReached: boolean; fetchedAt: string };
+
+type IndexEntry = { key: string; ids: string[] };
+
+let index: IndexEntry[] | null = null;
+let thumbs: Set<string> | null = null; // report ids with a thumbnail on disk
+let writing: Promise<unknown> = Promise.resolve();
+
+export function cacheKey(filters: ReportFilters, userId: string | null) {
+  return `${userId ?? "all"}:${JSON.stringify(filters)}`;
+}
+
+async function loadIndex(): Promise<IndexEntry[]> {
+  if (index) return index;
+  try {
+    const raw = await AsyncStorage.getItem(INDEX_KEY);
+    index = raw ? JSON.parse(raw) : [];
+  } catch (err) {
+    console.warn("⚠️ Could not read report cache:", err);
+    index = [];
+  }
+  return index!;
+}
+
+// Writes run one after another so index updates never overwrite each other.
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+  const next = writing.then(task);
+  writing = next.catch(() => {});
+  return next;
+}
+
+export async function readCachedReports(key: string): Promise<CachedList | null> {
+  if (!(await loadIndex()).some((e) => e.key === key)) return null;
+  try {
+    const raw = await AsyncStorage.getItem(LIST_PREFIX + key);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    console.warn("⚠️ Could not read cached reports:", err);
+    return null;
+  }
+}
+
+// Only the first MAX_ROWS are kept; a longer list picks up from the cursor.
+export function writeCachedReports(key: string, rows: Report[], endReached: boolean) {
+  return serialized(async () => {
+    const kept = rows.slice(0, MAX_ROWS);
+    const list: CachedList = {
+      rows: kept,
+      endReached: endReached && kept.length === rows.length,
+      fetchedAt: new Date().toISOString(),
+    };
+    const current = await loadIndex();
+    const next = [{ key, ids: kept.map((r) => r.id) }, ...current.filter((e) => e.key !== key)];
+    const evicted = next.splice(MAX_LISTS);
+    index = next;
+    await AsyncStorage.setItem(LIST_PREFIX + key, JSON.stringify(list));
+    await AsyncStorage.setItem(INDEX_KEY, JSON.stringify(next));
+    if (evicted.length > 0) await AsyncStorage.multiRemove(evicted.map((e) => LIST_PREFIX + e.key));
+  });
+}
+
+// For the detail screen when the report cannot be fetched.
+export async function findCachedReport(id: string): Promise<Report | null> {
+  for (const entry of await loadIndex()) {
+    if (!entry.ids.includes(id)) continue;
+    const list = await readCachedReports(entry.key);
+    const row = list?.rows.find((r) => r.id === id);
+    if (row) return row;
+  }
+  return null;
+}
+
+// Called on sign-out: the next user of the phone should not see these.
+export function clearReportCache() {
+  return serialized(async () => {
+    const current = await loadIndex();
+    index = [];
+    thumbs = null;
+    await AsyncStorage.multiRemove([INDEX_KEY, ...current.map((e) => LIST_PREFIX + e.key)]);
+    await FileSystem.deleteAsync(THUMB_DIR, { idempotent: true });
+  });
+}
+
+// -------------------- Thumbnails --------------------
+// Small copies of each cached row's first photo, so the list still has
+// pictures offline. The other photos are only shown while online.
+async function loadThumbs() {
+  if (thumbs) return thumbs;
+  try {
+    await FileSystem.makeDirectoryAsync(THUMB_DIR, { intermediates: true }).catch(() => {});
+    const files = await FileSystem.readDirectoryAsync(THUMB_DIR);
+    thumbs = new Set(files.map((f) => f.replace(/\.jpg$/, "")));
+  } catch (err) {
+    console.warn("⚠️ Could not read cached thumbnails:", err);
+    thumbs = new Set();
+  }
+  return thumbs;
+}
+
+export function thumbnailUri(report: Report): string | null {
+  if (thumbs?.has(report.id)) return `${THUMB_DIR}${report.id}.jpg`;
+  return reportPhotos(report)[0] ?? null;
+}
+
+async function saveThumb(report: Report, url: string) {
+  const download = `${FileSystem.cacheDirectory}thumb-${report.id}.jpg`;
+  try {
+    const { uri } = await FileSystem.downloadAsync(url, download);
+    const small = await ImageManipulator.manipulateAsync(uri, [{ resize: { width: THUMB_WIDTH } }], {
+      compress: 0.7,
+      format: ImageManipulator.SaveFormat.JPEG,
+    });
+    await FileSystem.moveAsync({ from: small.uri, to: `${THUMB_DIR}${report.id}.jpg` });
+    return true;
+  } catch (err) {
+    console.warn("⚠️ Could not cache thumbnail:", err);
+    return false;
+  } finally {
+    FileSystem.deleteAsync(download, { idempotent: true }).catch(() => {});
+  }
+}
+
+// Fetches missing thumbnails one at a time and drops those no cached list
+// refers to any more.
+export function syncThumbnails() {
+  return serialized(async () => {
+    const have = await loadThumbs();
+    const wanted = new Set((await loadIndex()).flatMap((e) => e.ids));
+    for (const id of [...have]) {
+      if (wanted.has(id)) continue;
+      have.delete(id);
+      FileSystem.deleteAsync(`${THUMB_DIR}${id}.jpg`, { idempotent: true }).catch(() => {});
+    }
+    for (const entry of index ?? []) {
+      const missing = entry.ids.filter((id) => !have.has(id));
+      if (missing.length === 0) continue;
+      const list = await readCachedReports(entry.key);
+      for (const row of list?.rows ?? []) {
+        const url = reportPhotos(row)[0];
+        if (have.has(row.id) || !missing.includes(row.id) || !url?.startsWith("http")) continue;
+        if (await saveThumb(row, url)) have.add(row.id);
+      }
+    }
+  });
+}
+
+// -------------------- Hook --------------------
+// Opens a list from the cache, then refreshes it in the background. `offline`
+// is set while the latest fetch failed; `cachedAt` says how old the rows are
+// until a fetch succeeds. `update` is for realtime patches and keeps the cache
+// in step.
+export function useCachedReports(
+  filters: ReportFilters,
+  opts: { userId: string | null; origin: Coords | null; enabled: boolean }
+) {
+  const { userId, origin, enabled } = opts;
+  const key = cacheKey(filters, userId);
+  const [reports, setReports] = useState<Report[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [endReached, setEndReached] = useState(false);
+  const [offline, setOffline] = useState(false);
+  const [cachedAt, setCachedAt] = useState<string | null>(null);
+  const rowsRef = useRef<Report[]>([]);
+  const endRef = useRef(false);
+  const keyRef = useRef(key);
+  const shownKeyRef = useRef<string | null>(null);
+  const loadingMoreRef = useRef(false);
+  keyRef.current = key;
+
+  const show = (rows: Report[], end: boolean) => {
+    rowsRef.current = rows;
+    endRef.current = end;
+    setReports(rows);
+    setEndReached(end);
+  };
+
+  const store = (requestKey: string, rows: Report[], end: boolean) => {
+    writeCachedReports(requestKey, rows, end)
+      .then(() => syncThumbnails())
+      .catch((err) => console.warn("⚠️ Could not cache reports:", err));
+  };
+
+  const refresh = useCallback(async () => {
+    const requestKey = key;
+    try {
+      const rows = await fetchReportsPage(filters, { userId, origin });
+      if (keyRef.current !== requestKey) return;
+      show(rows, rows.length < PAGE_SIZE);
+      setOffline(false);
+      setCachedAt(null);
+      store(requestKey, rows, rows.length < PAGE_SIZE);
+    } catch (err) {
+      if (keyRef.current !== requestKey) return;
+      console.warn("⚠️ Could not refresh reports:", err);
+      setOffline(true);
+    } finally {
+      if (keyRef.current === requestKey) setLoading(false);
+    }
+  }, [key, filters, userId, origin]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    (async () => {
+      if (shownKeyRef.current !== key) {
+        shownKeyRef.current = key;
+        setLoading(true);
+        const [cached] = await Promise.all([readCachedReports(key), loadThumbs()]);
+        if (keyRef.current !== key) return;
+        show(cached?.rows ?? [], cached?.endReached ?? false);
+        setCachedAt(cached?.fetchedAt ?? null);
+        if (cached) setLoading(false);
+      }
+      await refresh();
+    })();
+  }, [enabled, key, refresh]);
+
+  const loadMore = useCallback(async () => {
+    if (loadingMoreRef.current || endRef.current || loading) return;
+    loadingMoreRef.current = true;
+    const requestKey = key;
+    try {
+      const page = await fetchReportsPage(filters, { userId, origin, loaded: rowsRef.current });
+      if (keyRef.current !== requestKey) return;
+      const seen = new Set(rowsRef.current.map((r) => r.id));
+      const rows = [...rowsRef.current, ...page.filter((r) => !seen.has(r.id))];
+      show(rows, page.length < PAGE_SIZE);
+      store(requestKey, rows, page.length < PAGE_SIZE);
+    } catch (err) {
+      if (keyRef.current === requestKey) setOffline(true);
+      console.warn("⚠️ Could not load more reports:", err);
+    } finally {
+      loadingMoreRef.current = false;
+    }
+  }, [key, filters, userId, origin, loading]);
+
+  const update = useCallback(
+    (fn: (rows: Report[]) => Report[]) => {
+      const rows = fn(rowsRef.current);
+      if (rows === rowsRef.current) return;
+      show(rows, endRef.current);
+      store(key, rows, endRef.current);
+    },
+    [key]
+  );
+
+  return { reports, loading, endReached, offline, cachedAt, refresh, loadMore, update };
+}
@@ -0,0 +1,108 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { Coords, Report } from "./reports";
+import { supabase } from "./supabase";
+
+// -------------------- Filter model --------------------
+export type StatusFilter = "pending" | "violation" | "success" | "error";
+export type SortOrder = "newest" | "oldest" | "nearest";
+
+export type ReportFilters = {
+  statuses: StatusFilter[]; // empty = any status
+  from: string | null; // ISO timestamp, inclusive
+  to: string | null; // ISO timestamp, inclusive
+  hasQr: boolean;
+  search: string; // matched against the address
+  sort: SortOrder;
+};
+
+export const STATUS_FILTERS: StatusFilter[] = ["pending", "violation", "success", "error"];
+
+export const DEFAULT_FILTERS: ReportFilters = {
+  statuses: [],
+  from: null,
+  to: null,
+  hasQr: false,
+  search: "",
+  sort: "newest",
+};
+
+export function isFiltered(f: ReportFilters) {
+  return f.statuses.length > 0 || !!f.from || !!f.to || f.hasQr || f.search.trim() !== "";
+}
+
+// -------------------- Persistence --------------------
+const STORAGE_KEY = "report-filters:v1";
+
+export async function loadFilters(): Promise<ReportFilters> {
+  try {
+    const raw = await AsyncStorage.getItem(STORAGE_KEY);
+    return raw ? { ...DEFAULT_FILTERS, ...JSON.parse(raw) } : DEFAULT_FILTERS;
+  } catch (err) {
+    console.warn("⚠️ Could not read saved filters:", err);
+    return DEFAULT_FILTERS;
+  }
+}
+
+export async function saveFilters(filters: ReportFilters) {
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(filters));
+}
+
+// -------------------- Query building --------------------
+// `%` and `_` are ILIKE wildcards; a user typing them means the literal char.
+function escapeLike(text: string) {
+  return text.replace(/[\\%_]/g, (c) => `\\${c}`);
+}
+
+// "Nearest" cannot be expressed as a plain column order, so it goes through the
+// `reports_nearest(origin_lat, origin_lon)` SQL function, which returns report
+// rows ordered by distance. Every other filter is applied the same way to both.
+export function buildReportsQuery(
+  filters: ReportFilters,
+  opts: { userId?: string | null; origin?: Coords | null }
+) {
+  const nearest = filters.sort === "nearest" && opts.origin;
+  let query = nearest
+    ? supabase
+        .rpc("reports_nearest", {
+          origin_lat: opts.origin!.latitude,
+          origin_lon: opts.origin!.longitude,
+        })
+    : supabase.from("reports").select("*");
+
+  if (opts.userId) query = query.eq("user_id", opts.userId);
+  if (filters.statuses.length > 0) query = query.in("status", filters.statuses);
+  if (filters.from) query = query.gte("created_at", filters.from);
+  if (filters.to) query = query.lte("created_at", filters.to);
+  if (filters.hasQr) query = query.not("qr_value", "is", null).neq("qr_value", "");
+  const search = filters.search.trim();
+  if (search) query = query.ilike("address", `%${escapeLike(search)}%`);
+
+  // `id` breaks ties between rows created in the same instant, which the
+  // cursor in reportCache.ts relies on.
+  if (!nearest) {
+    const ascending = filters.sort === "oldest";
+    query = query.order("created_at", { ascending }).order("id", { ascending });
+  }
+  return query;
+}
+
+// Client-side mirror of buildReportsQuery, used to decide whether a row pushed
+// over realtime belongs in the current list.
+export function matchesFilters(
+  report: Report,
+  filters: ReportFilters,
+  opts: { userId?: string | null }
+) {
+  if (opts.userId && report.user_id !== opts.userId) return false;
+  if (filters.statuses.length > 0 && !filters.statuses.includes(report.status as StatusFilter)) {
+    return false;
+  }
+  const created = new Date(report.created_at).getTime();
+  if (filters.from && created < new Date(filters.from).getTime()) return false;
+  if (filters.to && created > new Date(filters.to).getTime()) return false;
+  if (filters.hasQr && !report.qr_value) return false;
+  const search = filters.search.trim().toLowerCase();
+  if (search && !report.address?.toLowerCase().includes(search)) return false;
+  return true;
+}
@@ -0,0 +1,208 @@
+import type { StatusTone } from "../constants/Colors";
+import { Locale, MessageKey, t } from "./i18n";
+
+// -------------------- Report result classifier --------------------
+// The backend (and our own capture flow) describe a report with a `status`
+// plus a `; `-separated `message`. Everything the UI shows is derived from the
+// union below so the Camera modal and the Reports list can never disagree.
+
+export type ReasonCode =
+  | "qr-found"
+  | "invalid-qr-format"
+  | "missing-qr"
+  | "no-license-info"
+  | "no-billboard"
+  | "out-of-zone"
+  | "prohibited-zone"
+  | "school-buffer"
+  | "outside-time"
+  // Written by the app itself rather than the backend
+  | "license-expired"
+  | "license-forged"
+  | "saved-offline"
+  | "stored"
+  | "upload-failed"
+  | "capture-failed"
+  | "policy-violation"
+  | "other";
+
+export type ReportReason = { code: ReasonCode; text: string };
+
+export type ResultKind =
+  | "no-billboard"
+  | "missing-license"
+  | "license-ok"
+  | "out-of-zone"
+  | "time-violation"
+  | "violation"
+  | "success"
+  | "warning"
+  | "pending"
+  | "queued"
+  | "error";
+
+export type ReportResult = {
+  [K in ResultKind]: { kind: K; status: string | null; reasons: ReportReason[] };
+}[ResultKind];
+
+const REASON_PATTERNS: [ReasonCode, RegExp][] = [
+  ["qr-found", /^qr found correctly$/],
+  ["invalid-qr-format", /^invalid qr format$/],
+  ["missing-qr", /^missing qr$/],
+  ["no-license-info", /^no license information( detected)?$/],
+  ["no-billboard", /^no billboard detected$/],
+  ["out-of-zone", /^out of allowed zone$/],
+  ["prohibited-zone", /^inside prohibited zone$/],
+  ["school-buffer", /^within school buffer zone$/],
+  ["outside-time", /^outside allowed time$/],
+  ["license-expired", /^license expired on \d{4}-\d{2}-\d{2}$/],
+  ["license-forged", /^license qr signature is invalid$/],
+  ["saved-offline", /^saved on device, waiting to sync$/],
+  ["stored", /^report stored in supabase$/],
+  ["upload-failed", /^upload failed$/],
+  ["capture-failed", /^could not capture or send photo$/],
+  ["policy-violation", /^policy violation detected$/],
+];
+
+// Codes the result kind already expresses; the UI does not repeat them.
+const KIND_CODES = new Set<ReasonCode>([
+  "qr-found",
+  "invalid-qr-format",
+  "missing-qr",
+  "no-license-info",
+  "no-billboard",
+  "out-of-zone",
+  "prohibited-zone",
+  "school-buffer",
+  "outside-time",
+]);
+
+function reasonCode(text: string): ReasonCode {
+  const normalized = text
+    .replace(/^[^a-z0-9]+/i, "") // leading emoji / punctuation, e.g. "✅ "
+    .replace(/[.!]+$/, "")
+    .trim()
+    .toLowerCase();
+  return REASON_PATTERNS.find(([, re]) => re.test(normalized))?.[0] ?? "other";
+}
+
+export function parseReasons(message?: string | null): ReportReason[] {
+  if (!message) return [];
+  return message
+    .split(";")
+    .map((text) => text.trim())
+    .filter(Boolean)
+    .map((text) => ({ code: reasonCode(text), text }));
+}
+
+const STATUS_KINDS: Record<string, ResultKind> = {
+  violation: "violation",
+  success: "success",
+  warning: "warning",
+  pending: "pending",
+  queued: "queued",
+  error: "error",
+};
+
+export function classifyReport(status?: string | null, message?: string | null): ReportResult {
+  const reasons = parseReasons(message);
+  const has = (code: ReasonCode) => reasons.some((r) => r.code === code);
+
+  // Order matters: the QR scanner on device hands the backend values it reports
+  // as "Invalid QR format" even though a license QR was present, so that code is
+  // treated as a valid license and wins over the zone / time reasons.
+  let kind: ResultKind;
+  if (has("no-billboard")) kind = "no-billboard";
+  else if (has("missing-qr")) kind = "missing-license";
+  else if (has("invalid-qr-format") || has("qr-found")) kind = "license-ok";
+  else if (has("no-license-info")) kind = "missing-license";
+  else if (has("out-of-zone") || has("prohibited-zone") || has("school-buffer")) kind = "out-of-zone";
+  else if (has("outside-time")) kind = "time-violation";
+  else kind = STATUS_KINDS[status ?? "pending"] ?? "pending";
+
+  return { kind, status: status ?? null, reasons } as ReportResult;
+}
+
+export function classifyAnalyzeResponse(data?: { status?: string; message?: string } | null) {
+  return classifyReport(data?.status, data?.message);
+}
+
+// Reasons not already expressed by the result kind, i.e. free text from the
+// backend and the app's own notes that are worth showing.
+export function otherReasons(result: ReportResult) {
+  return result.reasons.filter((r) => !KIND_CODES.has(r.code));
+}
+
+// Known reasons are shown in the current language; free text stays as sent.
+export function reasonText(reason: ReportReason) {
+  if (reason.code === "other") return reason.text;
+  const date = reason.text.match(/\d{4}-\d{2}-\d{2}/)?.[0] ?? "";
+  return t(`reason.${reason.code}` as MessageKey, { date });
+}
+
+// Short label used on list cards and the detail header.
+export function statusLabel(result: ReportResult, locale?: Locale) {
+  return t(statusKey(result), undefined, locale);
+}
+
+function statusKey(result: ReportResult): MessageKey {
+  switch (result.kind) {
+    case "no-billboard":
+      return "status.invalidImage";
+    case "missing-license":
+      return "status.violationDetected";
+    case "license-ok":
+    case "success":
+      return "status.allCorrect";
+    case "out-of-zone":
+    case "time-violation":
+    case "violation":
+      return "status.violation";
+    case "warning":
+      return "status.warning";
+    case "error":
+      return "status.error";
+    case "queued":
+      return "status.queued";
+    case "pending":
+      return "status.pending";
+  }
+}
+
+// One-line explanation for the results that need one; the result modal puts
+// an icon in front, list cards show the text alone.
+export function resultHint(result: ReportResult, opts: { icon?: boolean } = {}) {
+  const hint = (icon: string, text: string) => (opts.icon ? `${icon} ${text}` : text);
+  switch (result.kind) {
+    case "no-billboard":
+      return hint("☹️", t("hint.noBillboard"));
+    case "missing-license":
+      return hint("‼️", t("hint.missingLicense"));
+    case "license-ok":
+      return hint("💫", t("hint.licenseOk"));
+    default:
+      return null;
+  }
+}
+
+// Which status color a result is drawn in (card labels, map pins, the result modal).
+export function statusTone(result: ReportResult): StatusTone {
+  switch (result.kind) {
+    case "license-ok":
+    case "success":
+      return "success";
+    case "missing-license":
+    case "out-of-zone":
+    case "time-violation":
+    case "violation":
+      return "violation";
+    case "no-billboard":
+    case "warning":
+      return "warning";
+    case "error":
+      return "error";
+    case "queued":
+    case "pending":
+      return "pending";
+  }
+}
@@ -0,0 +1,402 @@
+import * as Crypto from "expo-crypto";
+import * as ImageManipulator from "expo-image-manipulator";
+
+import { Annotations, hasAnnotations } from "./annotations";
+import { getApiBaseUrl } from "./api";
+import config from "./config";
+import { abortError, xhrRequest } from "./http";
+import { CaptureInfo } from "./integrity";
+import { throwIfAborted } from "./pipeline";
+import { ReviewStatus } from "./reviews";
+import { RuleVerdict } from "./rules";
+import { supabase } from "./supabase";
+
+export type Coords = { latitude: number; longitude: number };
+
+// "imported": picked from the gallery, with location from EXIF or a pin (see gallery.ts).
+export type ReportSource = "camera" | "imported";
+
+export type Report = {
+  id: string;
+  user_id: string | null;
+  image_url: string | null; // first photo of the bundle
+  image_urls?: string[] | null; // every photo of the bundle, in capture order
+  lat: number | null;
+  lon: number | null;
+  address: string | null;
+  status: string | null;
+  created_at: string;
+  message: string | null;
+  zone_id?: string | null;
+  qr_value?: string | null;
+  annotations?: Annotations | null;
+  capture?: CaptureInfo | null;
+  rule_verdicts?: RuleVerdict[] | null;
+  review_status?: ReviewStatus | null; // final outcome once a reviewer decided (see reviews.ts)
+  reviewed_at?: string | null;
+  source?: ReportSource | null; // null on rows from before imports existed
+};
+
+// Photos another capture added to an existing report instead of filing a
+// duplicate (`report_evidence` table).
+export type ReportEvidence = {
+  id: string;
+  report_id: string;
+  user_id: string | null;
+  image_urls: string[];
+  lat: number | null;
+  lon: number | null;
+  address: string | null;
+  qr_value?: string | null;
+  annotations?: Annotations | null;
+  capture?: CaptureInfo | null;
+  created_at: string;
+};
+
+export type AnalyzeResponse = { status?: string; message?: string } & Record<string, any>;
+
+export type ReportDraft = {
+  photoUris: string[]; // the first one is sent to /analyze
+  coords: Coords;
+  address: string;
+  status: string;
+  message: string | null;
+  userId: string | null;
+  zoneId: string | null;
+  qrValue: string | null;
+  annotations: Annotations | null;
+  capture: CaptureInfo | null;
+  ruleVerdicts: RuleVerdict[];
+  source: ReportSource;
+};
+
+export type SubmitResult = {
+  url: string | null;
+  urls: string[];
+  id: string | null;
+  analysis: AnalyzeResponse | null;
+};
+
+type SubmitOptions = { onProgress?: (fraction: number) => void; signal?: AbortSignal };
+
+// -------------------- Image preparation --------------------
+// Low-end phones choke on full-resolution captures; shrink before anything
+// is read or sent.
+export async function compressPhoto(uri: string, size?: { width: number; height: number }) {
+  const { maxDimension, quality } = config.image;
+  const actions: ImageManipulator.Action[] = [];
+  if (!size || Math.max(size.width, size.height) > maxDimension) {
+    actions.push({
+      resize: !size || size.width >= size.height ? { width: maxDimension } : { height: maxDimension },
+    });
+  }
+  const result = await ImageManipulator.manipulateAsync(uri, actions, {
+    compress: quality,
+    format: ImageManipulator.SaveFormat.JPEG,
+  });
+  return result.uri;
+}
+
+function splitProgress(onProgress: SubmitOptions["onProgress"], parts: number) {
+  const values = new Array(parts).fill(0);
+  return (index: number) => (fraction: number) => {
+    values[index] = fraction;
+    onProgress?.(values.reduce((sum, v) => sum + v, 0) / parts);
+  };
+}
+
+// Older rows only have `image_url`; newer ones list the whole bundle.
+export function reportPhotos(report: Pick<Report, "image_url" | "image_urls">) {
+  if (report.image_urls && report.image_urls.length > 0) return report.image_urls;
+  return report.image_url ? [report.image_url] : [];
+}
+
+// -------------------- Upload + Insert to Supabase --------------------
+// All photos of one report share a folder: reports/<bundle>/<n>.jpg
+function newBundlePaths(count: number) {
+  const prefix = `reports/${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return Array.from({ length: count }, (_, i) => {
+    const path = `${prefix}/${i + 1}.jpg`;
+    const { data } = supabase.storage.from("reports").getPublicUrl(path);
+    return { path, publicUrl: data.publicUrl };
+  });
+}
+
+// Multipart upload straight from the file on disk: no base64 round trip through
+// JS memory, and progress events for the overlay.
+async function uploadPhoto(
+  path: string,
+  fileUri: string,
+  opts: { onProgress?: (fraction: number) => void; signal?: AbortSignal }
+) {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token ?? config.supabaseAnonKey;
+
+  const body = new FormData();
+  body.append("file", { uri: fileUri, name: path.split("/").pop(), type: "image/jpeg" } as any);
+
+  const res = await xhrRequest({
+    method: "POST",
+    url: `${config.supabaseUrl}/storage/v1/object/reports/${path}`,
+    headers: { Authorization: `Bearer ${token}`, apikey: config.supabaseAnonKey },
+    body,
+    onProgress: opts.onProgress,
+    signal: opts.signal,
+  });
+  if (res.status >= 300) throw new Error(`Storage upload failed (${res.status}): ${res.body}`);
+}
+
+function uploadBundle(
+  photos: { path: string }[],
+  photoUris: string[],
+  opts?: SubmitOptions
+) {
+  const progress = splitProgress(opts?.onProgress, photos.length);
+  return Promise.all(
+    photos.map((p, i) =>
+      uploadPhoto(p.path, photoUris[i], { onProgress: progress(i), signal: opts?.signal })
+    )
+  );
+}
+
+async function insertReport(id: string, draft: ReportDraft, imageUrls: string[], signal?: AbortSignal) {
+  let query = supabase.from("reports").insert([
+    {
+      id,
+      user_id: draft.userId,
+      image_url: imageUrls[0],
+      image_urls: imageUrls,
+      lat: draft.coords.latitude,
+      lon: draft.coords.longitude,
+      address: draft.address,
+      status: draft.status,
+      message: draft.message,
+      zone_id: draft.zoneId,
+      qr_value: draft.qrValue,
+      annotations: hasAnnotations(draft.annotations) ? draft.annotations : null,
+      capture: draft.capture,
+      rule_verdicts: draft.ruleVerdicts,
+      source: draft.source,
+    },
+  ]);
+  if (signal) query = query.abortSignal(signal);
+
+  const { error } = await query;
+  if (error) throw error;
+}
+
+// Removes everything a cancelled or failed submission may have left behind.
+// Both calls are no-ops for objects that never made it.
+async function discardReport(
+  id: string | null,
+  paths: string[],
+  table: "reports" | "report_evidence" = "reports"
+) {
+  if (paths.length > 0) {
+    const { error } = await supabase.storage.from("reports").remove(paths);
+    if (error) console.warn("⚠️ Could not remove orphaned photos:", error);
+  }
+  if (id) {
+    const { error } = await supabase.from(table).delete().eq("id", id);
+    if (error) console.warn("⚠️ Could not remove orphaned report row:", error);
+  }
+}
+
+// Runs the remote stages in order: upload the photos, insert the row, then
+// /analyze (which reads the first photo back from storage). The row id is generated
+// here, so a row whose insert was cancelled mid-flight can still be found and
+// deleted. `url` is null when nothing usable reached Supabase; `analysis` is
+// null when the backend call failed and should be retried later — the row and
+// photos are kept for that retry. `onInserted` gets the id once the row exists,
+// before /analyze can settle it. Cancelling at any stage cleans up and
+// rethrows the AbortError.
+export async function submitReport(
+  draft: ReportDraft,
+  opts?: SubmitOptions & {
+    onStage?: (stage: "upload" | "insert" | "analyze") => void;
+    onInserted?: (id: string) => void;
+  }
+): Promise<SubmitResult> {
+  const signal = opts?.signal;
+  const photos = newBundlePaths(draft.photoUris.length);
+  const urls = photos.map((p) => p.publicUrl);
+  let id: string | null = null;
+
+  try {
+    opts?.onStage?.("upload");
+    await uploadBundle(photos, draft.photoUris, opts);
+
+    throwIfAborted(signal);
+    opts?.onStage?.("insert");
+    id = Crypto.randomUUID();
+    await insertReport(id, draft, urls, signal);
+    throwIfAborted(signal);
+    console.log("✅ Uploaded & inserted:", urls, id);
+    opts?.onInserted?.(id);
+
+    opts?.onStage?.("analyze");
+    opts?.onProgress?.(0);
+    const analysis = await requestAnalysis(
+      {
+        imageUrl: urls[0],
+        coords: draft.coords,
+        qrValue: draft.qrValue,
+        annotations: draft.annotations,
+        capture: draft.capture,
+        ruleVerdicts: draft.ruleVerdicts,
+        source: draft.source,
+        reportId: id,
+      },
+      { onProgress: opts?.onProgress, signal }
+    );
+
+    return { url: urls[0], urls, id, analysis };
+  } catch (err: any) {
+    // An aborted postgrest call surfaces as an error, not a throw.
+    const aborted = err?.name === "AbortError" || !!signal?.aborted;
+    await discardReport(id, photos.map((p) => p.path));
+    if (aborted) throw err?.name === "AbortError" ? err : abortError();
+    console.error("❌ Supabase upload/insert failed:", err);
+    return { url: null, urls: [], id: null, analysis: null };
+  }
+}
+
+// Files the photos as extra evidence on `reportId` rather than as a new report;
+// nothing is sent to /analyze. Returns null (after cleaning up) when the upload
+// or insert failed; cancelling cleans up and rethrows the AbortError.
+export async function attachEvidence(
+  reportId: string,
+  draft: ReportDraft,
+  opts?: SubmitOptions & { onStage?: (stage: "upload" | "insert") => void }
+): Promise<ReportEvidence | null> {
+  const signal = opts?.signal;
+  const photos = newBundlePaths(draft.photoUris.length);
+  let id: string | null = null;
+
+  try {
+    opts?.onStage?.("upload");
+    await uploadBundle(photos, draft.photoUris, opts);
+
+    throwIfAborted(signal);
+    opts?.onStage?.("insert");
+    id = Crypto.randomUUID();
+    const row = {
+      id,
+      report_id: reportId,
+      user_id: draft.userId,
+      image_urls: photos.map((p) => p.publicUrl),
+      lat: draft.coords.latitude,
+      lon: draft.coords.longitude,
+      address: draft.address,
+      qr_value: draft.qrValue,
+      annotations: hasAnnotations(draft.annotations) ? draft.annotations : null,
+      capture: draft.capture,
+      source: draft.source,
+    };
+    let query = supabase.from("report_evidence").insert([row]).select();
+    if (signal) query = query.abortSignal(signal);
+    const { data, error } = await query.single();
+    if (error) throw error;
+    throwIfAborted(signal);
+    console.log("✅ Evidence attached to report:", reportId, id);
+    return data as ReportEvidence;
+  } catch (err: any) {
+    const aborted = err?.name === "AbortError" || !!signal?.aborted;
+    await discardReport(id, photos.map((p) => p.path), "report_evidence");
+    if (aborted) throw err?.name === "AbortError" ? err : abortError();
+    console.error("❌ Could not attach evidence:", err);
+    return null;
+  }
+}
+
+// -------------------- Reads --------------------
+export async function fetchReport(id: string): Promise<Report | null> {
+  const { data, error } = await supabase.from("reports").select("*").eq("id", id).maybeSingle();
+  if (error) throw error;
+  return (data as Report | null) ?? null;
+}
+
+export async function fetchEvidence(reportId: string): Promise<ReportEvidence[]> {
+  const { data, error } = await supabase
+    .from("report_evidence")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("created_at", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ReportEvidence[];
+}
+
+export async function fetchReportsInBounds(
+  bounds: { south: number; north: number; west: number; east: number },
+  limit = 500
+): Promise<Report[]> {
+  const { data, error } = await supabase
+    .from("reports")
+    .select("*")
+    .gte("lat", bounds.south)
+    .lte("lat", bounds.north)
+    .gte("lon", bounds.west)
+    .lte("lon", bounds.east)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data ?? []) as Report[];
+}
+
+// -------------------- Backend analysis --------------------
+// Returns null when the backend could not be reached, answered with an error
+// status or with garbage, so callers can decide whether to queue a retry. The
+// photo is only referenced by `image_url`: it is in storage by the time this
+// runs. Inspector annotations, capture metadata and the on-device schedule
+// rule verdicts go along as JSON strings, with the first photo's SHA-256 as
+// its own field.
+export async function requestAnalysis(
+  params: {
+    imageUrl: string | null;
+    coords: Coords;
+    qrValue: string | null;
+    annotations?: Annotations | null;
+    capture?: CaptureInfo | null;
+    ruleVerdicts?: RuleVerdict[] | null;
+    source?: ReportSource | null;
+    reportId: string | null;
+  },
+  opts?: SubmitOptions
+): Promise<AnalyzeResponse | null> {
+  const formData = new FormData();
+  formData.append("image_url", params.imageUrl ?? "");
+  formData.append("lat", params.coords.latitude.toString());
+  formData.append("lon", params.coords.longitude.toString());
+  formData.append("qr_value", params.qrValue ?? "");
+  if (hasAnnotations(params.annotations)) {
+    formData.append("annotations", JSON.stringify(params.annotations));
+  }
+  if (params.capture) {
+    formData.append("image_sha256", params.capture.sha256[0] ?? "");
+    formData.append("capture", JSON.stringify(params.capture));
+  }
+  if (params.ruleVerdicts && params.ruleVerdicts.length > 0) {
+    formData.append("rule_verdicts", JSON.stringify(params.ruleVerdicts));
+  }
+  if (params.source) formData.append("source", params.source);
+  if (params.reportId) formData.append("report_id", params.reportId);
+
+  try {
+    const res = await xhrRequest({
+      method: "POST",
+      url: `${getApiBaseUrl()}/analyze`,
+      body: formData,
+      onProgress: opts?.onProgress,
+      signal: opts?.signal,
+    });
+    // Error bodies are JSON too (FastAPI's `{"detail": ...}`); they are not an analysis.
+    if (res.status >= 300) throw new Error(`Analyze failed (${res.status}): ${res.body}`);
+    const data = JSON.parse(res.body);
+    console.log("✅ Backend response:", data);
+    return data;
+  } catch (e: any) {
+    if (e?.name === "AbortError") throw e;
+    console.warn("⚠️ Backend analyze call failed:", e);
+    return null;
+  }
+}
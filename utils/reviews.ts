@@ -0,0 +1,114 @@
+import { User } from "@supabase/supabase-js";
+
+import { StatusTone } from "../constants/Colors";
+import { Report } from "./reports";
+import { supabase } from "./supabase";
+
+// -------------------- Review model --------------------
+// A reviewer (a user whose `app_metadata.role` is "reviewer", set from the
+// Supabase dashboard) triages what the capture flow and backend flagged.
+// Decisions go through the `review_report(report_id, decision, reason)` SQL
+// function, which stamps the caller's id and the server time into the
+// `report_reviews` audit table and writes the outcome to `reports.review_status`.
+
+export type ReviewDecision = "confirm" | "dismiss" | "escalate";
+export type ReviewStatus = "confirmed" | "dismissed" | "escalated";
+
+export const REVIEW_DECISIONS: ReviewDecision[] = ["confirm", "dismiss", "escalate"];
+
+export const REVIEW_STATUS: Record<ReviewDecision, ReviewStatus> = {
+  confirm: "confirmed",
+  dismiss: "dismissed",
+  escalate: "escalated",
+};
+
+// Statuses a reviewer is asked to look at; clean results need no human.
+export const REVIEW_QUEUE_STATUSES = ["pending", "violation"];
+
+// "new": flagged reports nobody has decided yet. "escalated": reports a
+// reviewer passed up, kept listed until someone confirms or dismisses them.
+export type ReviewQueue = "new" | "escalated";
+
+export const REVIEW_QUEUES: ReviewQueue[] = ["new", "escalated"];
+
+export const MIN_REASON_LENGTH = 5;
+
+export type ReportReview = {
+  id: string;
+  report_id: string;
+  reviewer_id: string;
+  decision: ReviewDecision;
+  reason: string;
+  previous_status: string | null;
+  created_at: string;
+};
+
+export function isReviewer(user: Pick<User, "app_metadata"> | null | undefined) {
+  const meta = user?.app_metadata ?? {};
+  return meta.role === "reviewer" || (Array.isArray(meta.roles) && meta.roles.includes("reviewer"));
+}
+
+// The reason ends up in the audit trail, so a bare "ok" is not enough.
+export function isValidReason(reason: string) {
+  return reason.trim().length >= MIN_REASON_LENGTH;
+}
+
+// Confirmed violations stay red; a dismissal clears the report; escalations
+// still need someone's attention.
+export function reviewTone(status: ReviewStatus): StatusTone {
+  switch (status) {
+    case "confirmed":
+      return "violation";
+    case "dismissed":
+      return "success";
+    case "escalated":
+      return "warning";
+  }
+}
+
+// -------------------- Queries --------------------
+// Oldest first, so nothing sits in the queue for ever. Paged by offset into
+// the queue's rows: decided rows leave it, so page numbers would skip.
+export async function fetchReviewQueue(
+  queue: ReviewQueue,
+  from: number,
+  limit: number,
+  opts: { signal?: AbortSignal } = {}
+): Promise<Report[]> {
+  let query = supabase.from("reports").select("*");
+  query =
+    queue === "escalated"
+      ? query.eq("review_status", "escalated")
+      : query.in("status", REVIEW_QUEUE_STATUSES).is("review_status", null);
+  query = query.order("created_at", { ascending: true }).range(from, from + limit - 1);
+  if (opts.signal) query = query.abortSignal(opts.signal);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return (data ?? []) as Report[];
+}
+
+export async function submitReview(
+  reportId: string,
+  decision: ReviewDecision,
+  reason: string
+): Promise<ReportReview> {
+  if (!isValidReason(reason)) throw new Error("A reason is required");
+  const { data, error } = await supabase
+    .rpc("review_report", { report_id: reportId, decision, reason: reason.trim() })
+    .single();
+  if (error) throw error;
+  console.log(`✅ Review ${decision} saved for report ${reportId}`);
+  return data as ReportReview;
+}
+
+// Newest decision first.
+export async function fetchReviews(reportId: string): Promise<ReportReview[]> {
+  const { data, error } = await supabase
+    .from("report_reviews")
+    .select("*")
+    .eq("report_id", reportId)
+    .order("created_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as ReportReview[];
+}
@@ -0,0 +1,162 @@
+import AsyncStorage from "@react-native-async-storage/async-storage";
+
+import { HoardingType } from "./annotations";
+import { supabase } from "./supabase";
+
+// -------------------- Rule model --------------------
+// Time-based rules live in the `schedule_rules` table and are checked on the
+// device next to the geofence, so a capture gets a preliminary verdict even
+// offline:
+//   id, name, kind, applies_to (text[]), zone_ids (text[]), from_time, to_time,
+//   starts_at, ends_at, active
+// `quiet-hours` prohibits matching hoardings every day between `from` and `to`
+// (local "HH:MM", may wrap past midnight). `event-window` only allows them
+// between `startsAt` and `endsAt`. Empty `appliesTo` / `zoneIds` mean "any".
+
+export type ScheduleRule = {
+  id: string;
+  name: string;
+  appliesTo?: HoardingType[];
+  zoneIds?: string[];
+} & (
+  | { kind: "quiet-hours"; from: string; to: string }
+  | { kind: "event-window"; startsAt: string; endsAt: string }
+);
+
+// Every rule that applied is recorded, passes included, so the server can
+// confirm or override each one by id. Stored as `rule_verdicts` (jsonb).
+export type RuleVerdict = {
+  ruleId: string;
+  ruleName: string;
+  outcome: "pass" | "violation";
+  evaluatedAt: string; // the capture time the rule was checked against
+};
+
+export type RuleContext = {
+  at: Date;
+  zoneId: string | null;
+  hoardingType: HoardingType | null;
+};
+
+// Same wording as the backend, so the result classifier reads it as a time violation.
+export const TIME_VIOLATION_REASON = "Outside allowed time";
+
+// -------------------- Cache CONFIG --------------------
+const CACHE_KEY = "schedule-rules:v1";
+const CACHE_TTL_MS = 6 * 60 * 60_000;
+
+// Used until the first successful fetch.
+export const DEFAULT_RULES: ScheduleRule[] = [
+  {
+    id: "illuminated-night",
+    name: "Illuminated hoardings switched off 23:00-06:00",
+    kind: "quiet-hours",
+    from: "23:00",
+    to: "06:00",
+    appliesTo: ["illuminated"],
+  },
+];
+
+// -------------------- Evaluation --------------------
+function minutesOf(hhmm: string) {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(hhmm.trim());
+  if (!m) return null;
+  const minutes = Number(m[1]) * 60 + Number(m[2]);
+  return minutes < 24 * 60 ? minutes : null;
+}
+
+export function inQuietHours(at: Date, from: string, to: string) {
+  const start = minutesOf(from);
+  const end = minutesOf(to);
+  if (start == null || end == null || start === end) return false;
+  const now = at.getHours() * 60 + at.getMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+// A rule without a type filter applies to every hoarding; one with a filter
+// only when the inspector said which type it is.
+export function ruleApplies(rule: ScheduleRule, ctx: RuleContext) {
+  if (rule.appliesTo && rule.appliesTo.length > 0) {
+    if (!ctx.hoardingType || !rule.appliesTo.includes(ctx.hoardingType)) return false;
+  }
+  if (rule.zoneIds && rule.zoneIds.length > 0) {
+    if (!ctx.zoneId || !rule.zoneIds.includes(ctx.zoneId)) return false;
+  }
+  return true;
+}
+
+function violates(rule: ScheduleRule, at: Date) {
+  if (rule.kind === "quiet-hours") return inQuietHours(at, rule.from, rule.to);
+  const start = Date.parse(rule.startsAt);
+  const end = Date.parse(rule.endsAt);
+  if (Number.isNaN(start) || Number.isNaN(end)) return false;
+  return at.getTime() < start || at.getTime() > end;
+}
+
+export function evaluateRules(ctx: RuleContext, rules: ScheduleRule[] = getRules()): RuleVerdict[] {
+  const evaluatedAt = ctx.at.toISOString();
+  return rules
+    .filter((rule) => ruleApplies(rule, ctx))
+    .map((rule) => ({
+      ruleId: rule.id,
+      ruleName: rule.name,
+      outcome: violates(rule, ctx.at) ? "violation" : "pass",
+      evaluatedAt,
+    }));
+}
+
+export function ruleViolations(verdicts: RuleVerdict[] | null | undefined) {
+  return (verdicts ?? []).filter((v) => v.outcome === "violation");
+}
+
+// -------------------- Loading + cache --------------------
+let rules: ScheduleRule[] | null = null;
+
+function fromRow(row: any): ScheduleRule | null {
+  const base = {
+    id: String(row.id),
+    name: row.name ?? String(row.id),
+    appliesTo: Array.isArray(row.applies_to) ? row.applies_to : undefined,
+    zoneIds: Array.isArray(row.zone_ids) ? row.zone_ids.map(String) : undefined,
+  };
+  if (row.kind === "quiet-hours" && row.from_time && row.to_time) {
+    return { ...base, kind: "quiet-hours", from: row.from_time, to: row.to_time };
+  }
+  if (row.kind === "event-window" && row.starts_at && row.ends_at) {
+    return { ...base, kind: "event-window", startsAt: row.starts_at, endsAt: row.ends_at };
+  }
+  return null;
+}
+
+export function getRules(): ScheduleRule[] {
+  return rules ?? DEFAULT_RULES;
+}
+
+// Serves the cached rules straight away and refreshes from Supabase when the
+// cache is stale. Offline, the last good copy (or the defaults) keeps working.
+export async function loadRules(opts?: { force?: boolean }): Promise<ScheduleRule[]> {
+  let fetchedAt = 0;
+  try {
+    const raw = await AsyncStorage.getItem(CACHE_KEY);
+    if (raw) {
+      const cached = JSON.parse(raw) as { fetchedAt: number; rules: ScheduleRule[] };
+      rules = cached.rules;
+      fetchedAt = cached.fetchedAt;
+    }
+  } catch (err) {
+    console.warn("⚠️ Could not read cached schedule rules:", err);
+  }
+
+  if (!opts?.force && Date.now() - fetchedAt < CACHE_TTL_MS) return getRules();
+
+  try {
+    const { data, error } = await supabase.from("schedule_rules").select("*").eq("active", true);
+    if (error) throw error;
+    rules = (data ?? []).map(fromRow).filter((r): r is ScheduleRule => r !== null);
+    await AsyncStorage.setItem(CACHE_KEY, JSON.stringify({ fetchedAt: Date.now(), rules }));
+    console.log(`✅ Loaded ${rules.length} schedule rules`);
+  } catch (err) {
+    console.warn("⚠️ Schedule rule refresh failed, using cached rules:", err);
+  }
+  return getRules();
+}